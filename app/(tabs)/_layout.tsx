@@ -35,6 +35,15 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="garage"
+        options={{
+          title: "Garage",
+          tabBarIcon: ({ color }) => (
+            <IconSymbol size={28} name="car.fill" color={color} />
+          ),
+        }}
+      />
     </Tabs>
   );
 }
@@ -1,8 +1,8 @@
-import AsyncStorage from "@react-native-async-storage/async-storage";
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
-import TextRecognition from "@react-native-ml-kit/text-recognition";
-import { CameraView, useCameraPermissions } from "expo-camera";
+import NetInfo from "@react-native-community/netinfo";
+import { useCameraPermissions } from "expo-camera";
+import { router, useFocusEffect } from "expo-router";
 
 import {
   ActivityIndicator,
@@ -15,10 +15,50 @@ import {
   View
 } from "react-native";
 
-type VinField = { label: string; value: string };
+import { AllFieldsPanel } from "@/components/vin/all-fields";
+import { BatchPanel } from "@/components/vin/batch-panel";
+import { CacheSettingsPanel } from "@/components/vin/cache-settings";
+import { ExportPanel } from "@/components/vin/export-panel";
+import { GarageEditor } from "@/components/vin/garage-editor";
+import { ImageImport } from "@/components/vin/image-import";
+import { LiveScanner } from "@/components/vin/live-scanner";
+import { ProviderSettingsPanel } from "@/components/vin/provider-settings";
+import { RecallsPanel } from "@/components/vin/recalls-panel";
+import { VinCandidates } from "@/components/vin/vin-candidates";
+import { useGarage } from "@/hooks/use-garage";
+import { useNumberFormat } from "@/hooks/use-number-format";
+import {
+  cacheAgeLabel,
+  CacheSettings,
+  defaultCacheSettings,
+  loadCacheSettings,
+  saveCacheSettings,
+} from "@/lib/vin/cache";
+import { createProvider } from "@/lib/vin/create-provider";
+import {
+  asLookupError,
+  LOOKUP_ERROR_HELP,
+  LookupError,
+} from "@/lib/vin/errors";
+import { loadPinnedFields, savePinnedFields } from "@/lib/vin/field-groups";
+import { summaryFields, VinField, VpicRecord } from "@/lib/vin/fields";
+import { GarageVehicle, saveVehicle } from "@/lib/vin/garage";
+import { keepGaragePhoto } from "@/lib/vin/garage-photo";
+import { vinHref } from "@/lib/vin/links";
+import { lookupVin, offlineNote, VinLookup } from "@/lib/vin/lookup";
+import { VinCandidate } from "@/lib/vin/ocr";
+import {
+  defaultProviderSettings,
+  loadProviderSettings,
+  ProviderSettings,
+  saveProviderSettings,
+  TIMEOUT_CHOICES,
+  VinDecoderProvider,
+} from "@/lib/vin/provider";
+import { loadRecallCounts, saveRecallCount } from "@/lib/vin/recalls";
+import { loadRecents, MAX_RECENTS, saveRecents } from "@/lib/vin/recents";
+import { decodeModelYear, normalizeVin, validateVin } from "@/lib/vin/vin";
 
-const RECENTS_KEY = "vin_recents_v1";
-const MAX_RECENTS = 10;
 
 const _origWarn = console.warn;
 console.warn = (...args: any[]) => {
@@ -29,312 +69,608 @@ console.warn = (...args: any[]) => {
   _origWarn(...args);
 };
 
-// VIN rules: 17 chars; letters I, O, Q not allowed.
-function normalizeVin(input: string) {
-  return input
-    .trim()
-    .toUpperCase()
-    .replace(/[^A-Z0-9]/g, "");
-}
-
-function validateVin(v: string): string | null {
-  if (v.length === 0) return null; // no error while empty
-  if (v.length !== 17) return "VIN must be exactly 17 characters.";
-  if (/[IOQ]/.test(v)) return "VIN cannot contain I, O, or Q.";
-  return null;
-}
-
-async function loadRecents(): Promise<string[]> {
-  const raw = await AsyncStorage.getItem(RECENTS_KEY);
-  if (!raw) return [];
-  try {
-    const arr = JSON.parse(raw);
-    return Array.isArray(arr) ? arr.filter((x) => typeof x === "string") : [];
-  } catch {
-    return [];
-  }
-}
-
-async function saveRecents(recents: string[]) {
-  await AsyncStorage.setItem(RECENTS_KEY, JSON.stringify(recents));
-}
-
 export default function VinLookupScreen() {
   const [vinInput, setVinInput] = useState("");
   const vin = useMemo(() => normalizeVin(vinInput), [vinInput]);
-  const vinError = useMemo(() => validateVin(vin), [vin]);
+  const validation = useMemo(() => validateVin(vin), [vin]);
+  const vinError = validation.error;
+  // Known before the lookup returns
+  const modelYear = useMemo(
+    () => (vin.length === 17 && !vinError ? decodeModelYear(vin) : null),
+    [vin, vinError],
+  );
+  const { format } = useNumberFormat();
 
   const [loading, setLoading] = useState(false);
   const [fields, setFields] = useState<VinField[] | null>(null);
-  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  // The full vPIC row behind the cards, kept for exports
+  const [record, setRecord] = useState<VpicRecord | null>(null);
+  const [pinned, setPinned] = useState<string[]>([]);
+  const [showAll, setShowAll] = useState(false);
+  const [lookupError, setLookupError] = useState<LookupError | null>(null);
+  // The VIN lookupError is about, which the input may no longer hold
+  const [failedVin, setFailedVin] = useState<string | null>(null);
+  const inflight = useRef<AbortController | null>(null);
+  const inputRef = useRef<TextInput>(null);
+  // "offline" results came from the bundled WMI table when vPIC failed, and
+  // show under lookupError until vPIC's answer replaces them
+  const [source, setSource] = useState<"vpic" | "cache" | "offline" | null>(
+    null,
+  );
+  const [decodedVin, setDecodedVin] = useState<string | null>(null);
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [cacheSettings, setCacheSettings] =
+    useState<CacheSettings>(defaultCacheSettings);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(
+    defaultProviderSettings,
+  );
+  const provider = useMemo(
+    () => createProvider(providerSettings),
+    [providerSettings],
+  );
 
   const [recents, setRecents] = useState<string[]>([]);
+  const [recallCounts, setRecallCounts] = useState<Record<string, number>>(
+    {},
+  );
+  const [batch, setBatch] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+
+  const garage = useGarage();
+  const [garageDraft, setGarageDraft] = useState<GarageVehicle | null>(null);
+  // The photo a VIN was read from, offered when saving that VIN
+  const [scanPhoto, setScanPhoto] = useState<{
+    vin: string;
+    uri: string;
+  } | null>(null);
 
   const [scanMode, setScanMode] = useState(true);
+  const [candidates, setCandidates] = useState<VinCandidate[] | null>(null);
   const [permission, requestPermission] = useCameraPermissions();
-  const cameraRef = React.useRef<CameraView>(null);
 
   useEffect(() => {
     (async () => setRecents(await loadRecents()))();
+    (async () => setCacheSettings(await loadCacheSettings()))();
+    (async () => setProviderSettings(await loadProviderSettings()))();
+    (async () => setPinned(await loadPinnedFields()))();
   }, []);
 
+  // The vehicle page saves counts too; pick them up on coming back
+  useFocusEffect(
+    useCallback(() => {
+      (async () => setRecallCounts(await loadRecallCounts()))();
+    }, []),
+  );
+
   async function pushRecent(v: string) {
     const next = [v, ...recents.filter((x) => x !== v)].slice(0, MAX_RECENTS);
     setRecents(next);
     await saveRecents(next);
   }
 
-  async function decodeVin(v: string) {
-    setLoading(true);
-    setFields(null);
-    setErrorMsg(null);
+  // Runs lookupVin with the cards-first behaviour on top: a cached row
+  // past the TTL, or any cached row for a refresh (recent chips ask for
+  // one), shows straight away and vPIC's answer replaces it quietly. quiet keeps the current cards up while it runs,
+  // for in-place upgrades. The newest lookup wins: starting one cancels
+  // the request in flight, and a cancelled one leaves the screen alone.
+  async function decodeVin(
+    v: string,
+    opts: {
+      quiet?: boolean;
+      refresh?: boolean;
+      provider?: VinDecoderProvider;
+    } = {},
+  ) {
+    const { quiet = false, refresh = false, provider: using = provider } = opts;
+    // Background upgrades never cancel something the user asked for
+    if (quiet && inflight.current) return;
+    inflight.current?.abort();
+    const controller = new AbortController();
+    inflight.current = controller;
+    const { signal } = controller;
+
+    if (!quiet) {
+      setLoading(true);
+      setFields(null);
+      setRecord(null);
+      setLookupError(null);
+    }
+
+    async function show(r: VinLookup) {
+      if (r.source === "offline") {
+        setFields(r.fields);
+        setRecord(null);
+        setCachedAt(null);
+      } else {
+        setFields(summaryFields(r.record, format, pinned));
+        setRecord(r.record);
+        setCachedAt(r.cachedAt);
+      }
+      setSource(r.source);
+      setDecodedVin(v);
+      setLookupError(r.error);
+      setFailedVin(v);
+      setLoading(false);
+      await pushRecent(v);
+    }
 
     try {
-      const url = `https://vpic.nhtsa.dot.gov/api/vehicles/DecodeVinValuesExtended/${v}?format=json`;
-      const res = await fetch(url);
-      if (!res.ok) throw new Error(`HTTP ${res.status}`);
-
-      const json = await res.json();
-      const r = json?.Results?.[0];
-      if (!r) throw new Error("No results returned.");
-
-      const picked: VinField[] = [
-        { label: "Make", value: r.Make },
-        { label: "Model", value: r.Model },
-        { label: "Year", value: r.ModelYear },
-        { label: "Trim", value: r.Trim },
-        { label: "Body Class", value: r.BodyClass },
-        { label: "Vehicle Type", value: r.VehicleType },
-        {
-          label: "Engine",
-          value: [
-            r.EngineModel,
-            r.DisplacementL && `${r.DisplacementL}L`,
-            r.EngineCylinders && `${r.EngineCylinders} cyl`,
-          ]
-            .filter(Boolean)
-            .join(" • "),
-        },
-        { label: "Fuel", value: r.FuelTypePrimary },
-        {
-          label: "Plant",
-          value: [r.PlantCity, r.PlantState, r.PlantCountry]
-            .filter(Boolean)
-            .join(", "),
+      const r = await lookupVin(using, v, cacheSettings, {
+        signal,
+        refresh,
+        onStale: (cached) => {
+          setRefreshing(true);
+          show(cached);
         },
-      ].filter((f) => f.value && String(f.value).trim().length > 0);
-
-      setFields(
-        picked.length
-          ? picked
-          : [
-              {
-                label: "Result",
-                value: "Decoded, but no common fields present.",
-              },
-            ],
-      );
-
-      await pushRecent(v);
-    } catch (e: any) {
-      setErrorMsg(e?.message ?? "Lookup failed.");
+      });
+      if (signal.aborted) return;
+      await show(r);
+    } catch (e) {
+      if (signal.aborted) return;
+      setLookupError(asLookupError(e));
+      setFailedVin(v);
     } finally {
-      setLoading(false);
+      if (inflight.current === controller) {
+        inflight.current = null;
+        setLoading(false);
+        setRefreshing(false);
+      }
     }
   }
 
+  // Retries the VIN in the input, optionally with different settings
+  // (a longer timeout) than the current provider's.
+  function retryLookup(settings?: ProviderSettings) {
+    if (vinError || vin.length !== 17) return;
+    if (settings) {
+      setProviderSettings(settings);
+      saveProviderSettings(settings);
+    }
+    decodeVin(vin, settings ? { provider: createProvider(settings) } : {});
+  }
+
+  function recoverFromError() {
+    if (!lookupError) return;
+    if (lookupError.kind === "invalid-vin") {
+      inputRef.current?.focus();
+      return;
+    }
+    if (lookupError.kind === "timeout" && longerTimeout) {
+      retryLookup({ ...providerSettings, timeoutMs: longerTimeout });
+      return;
+    }
+    retryLookup();
+  }
+
+  const longerTimeout =
+    TIMEOUT_CHOICES.find((ms) => ms > providerSettings.timeoutMs) ?? null;
+  const recoveryLabel =
+    lookupError?.kind === "invalid-vin"
+      ? "Edit VIN"
+      : lookupError?.kind === "timeout" && longerTimeout
+        ? `Retry with ${longerTimeout / 1000}s timeout`
+        : "Retry";
+
+  // Offline failures retry the VIN that failed by themselves once the
+  // device reconnects, upgrading its cards in place rather than clearing
+  // them first. The listener outlives renders, so it calls through a ref.
+  const offlineVin = lookupError?.kind === "offline" ? failedVin : null;
+  const retryOffline = useRef(() => {});
+  useEffect(() => {
+    retryOffline.current = () => {
+      if (!offlineVin) return;
+      decodeVin(offlineVin, {
+        quiet: !!fields && decodedVin === offlineVin,
+      });
+    };
+  });
+  useEffect(() => {
+    if (!offlineVin) return;
+    let sawOffline = false;
+    return NetInfo.addEventListener((net) => {
+      if (!net.isConnected || net.isInternetReachable === false) {
+        sawOffline = true;
+      } else if (sawOffline) {
+        sawOffline = false;
+        retryOffline.current();
+      }
+    });
+  }, [offlineVin]);
+
+  async function togglePin(key: string) {
+    const next = pinned.includes(key)
+      ? pinned.filter((k) => k !== key)
+      : [...pinned, key];
+    setPinned(next);
+    if (record) setFields(summaryFields(record, format, next));
+    await savePinnedFields(next);
+  }
+
+  function openGarageDraft() {
+    if (!decodedVin || !fields) return;
+    const saved = garage.find((g) => g.vin === decodedVin);
+    const photo = scanPhoto?.vin === decodedVin ? scanPhoto.uri : null;
+    const now = Date.now();
+    setGarageDraft({
+      vin: decodedVin,
+      record,
+      fields,
+      nickname: saved?.nickname ?? "",
+      notes: saved?.notes ?? "",
+      tags: saved?.tags ?? [],
+      mileage: saved?.mileage ?? null,
+      photoUri: photo ?? saved?.photoUri ?? null,
+      savedAt: saved?.savedAt ?? now,
+      updatedAt: now,
+    });
+  }
+
+  async function saveGarageDraft(v: GarageVehicle) {
+    let photoUri = v.photoUri;
+    if (photoUri && photoUri === scanPhoto?.uri) {
+      try {
+        const saved = garage.find((g) => g.vin === v.vin);
+        photoUri = keepGaragePhoto(v.vin, photoUri, saved?.photoUri ?? null);
+      } catch {
+        photoUri = null;
+      }
+    }
+    await saveVehicle({ ...v, photoUri });
+    setGarageDraft(null);
+  }
+
   async function onDecodePress() {
     if (vinError) return;
     if (vin.length !== 17) return;
     await decodeVin(vin);
   }
 
+  function onScanResult(found: VinCandidate[], uri: string | null) {
+    // One clear winner fills the input; otherwise the user picks
+    if (found.length === 1) {
+      setScanPhoto(uri ? { vin: found[0].vin, uri } : null);
+      setVinInput(found[0].vin);
+    } else {
+      setScanPhoto(uri ? { vin: "", uri } : null);
+      setCandidates(found);
+    }
+    setScanMode(false);
+  }
+
   if (scanMode) {
     return (
       <SafeAreaView style={{ flex: 1 }}>
-        <View style={{ flex: 1 }}>
-          <CameraView ref={cameraRef} style={{ flex: 1 }} facing="back" />
-
-          <View
-            style={{
-              position: "absolute",
-              left: 16,
-              right: 16,
-              bottom: 24,
-              gap: 12,
-            }}
-          >
-            <Pressable
-              onPress={async () => {
-                try {
-                  // Take a photo
-                  // @ts-ignore (CameraView typing varies slightly across SDKs)
-                  const photo = await cameraRef.current?.takePictureAsync?.({
-                    quality: 0.8,
-                  });
-                  const uri = photo?.uri;
-                  if (!uri) throw new Error("No photo captured.");
-
-                  // OCR
-                  const result = await TextRecognition.recognize(uri); // returns recognized text blocks
-                  const allText = Array.isArray(result)
-                    ? result.map((b: any) => b.text ?? "").join("\n")
-                    : String(result ?? "");
-
-                  const found = extractVinFromText(allText);
-                  if (!found)
-                    throw new Error(
-                      "Couldn’t find a VIN. Try closer focus / better lighting.",
-                    );
-
-                  // Fill input + exit scan mode
-                  setVinInput(found);
-                  setScanMode(false);
-
-                  // Optional: auto-decode
-                  // await decodeVin(found);
-                } catch (e: any) {
-                  setErrorMsg(e?.message ?? "Scan failed.");
-                  setScanMode(false);
-                }
-              }}
-              style={{
-                backgroundColor: "#111",
-                paddingVertical: 14,
-                borderRadius: 14,
-                alignItems: "center",
-              }}
-            >
-              <Text style={{ color: "white", fontWeight: "900", fontSize: 16 }}>
-                Capture & OCR
-              </Text>
-            </Pressable>
-
-            <Pressable
-              onPress={() => setScanMode(false)}
-              style={{
-                backgroundColor: "#666",
-                paddingVertical: 12,
-                borderRadius: 14,
-                alignItems: "center",
-              }}
-            >
-              <Text style={{ color: "white", fontWeight: "800" }}>Cancel</Text>
-            </Pressable>
-          </View>
-        </View>
+        <LiveScanner
+          onResult={onScanResult}
+          onCancel={() => setScanMode(false)}
+        />
       </SafeAreaView>
     );
   } else {
     return (
       <SafeAreaView style={styles.safe}>
         <View style={styles.container}>
-          <Text style={styles.h1}>VIN Lookup</Text>
-          <Text style={styles.sub}>Decode a VIN using NHTSA vPIC.</Text>
-
-          <View style={styles.row}>
-            <TextInput
-              value={vinInput}
-              onChangeText={setVinInput}
-              autoCapitalize="characters"
-              autoCorrect={false}
-              placeholder="1HGCM82633A004352"
-              style={styles.input}
-              maxLength={32}
-            />
+          <View style={styles.sectionRow}>
+            <Text style={styles.h1}>VIN Lookup</Text>
+            <View style={styles.headerActions}>
+              <Pressable onPress={() => setImportOpen((o) => !o)}>
+                <Text style={styles.sectionAction}>
+                  {importOpen ? "Close" : "Import image"}
+                </Text>
+              </Pressable>
+              <Pressable onPress={() => setExportOpen((o) => !o)}>
+                <Text style={styles.sectionAction}>
+                  {exportOpen ? "Close" : "Export"}
+                </Text>
+              </Pressable>
+              <Pressable onPress={() => setSettingsOpen((o) => !o)}>
+                <Text style={styles.sectionAction}>
+                  {settingsOpen ? "Done" : "Settings"}
+                </Text>
+              </Pressable>
+            </View>
+          </View>
+          <Text style={styles.sub}>Decode a VIN using {provider.label}.</Text>
 
-            <Pressable
-              onPress={async () => {
-                if (!permission?.granted) {
-                  const res = await requestPermission();
-                  if (!res.granted) return;
-                }
-                setScanMode(true);
-              }}
-              style={({ pressed }) => [
-                styles.scanBtn,
-                pressed && { opacity: 0.75 },
-              ]}
+          {settingsOpen && (
+            <ScrollView
+              style={styles.settings}
+              contentContainerStyle={styles.settingsContent}
             >
-              <Text style={styles.scanBtnText}>Scan VIN</Text>
-            </Pressable>
-
-            <Pressable
-              onPress={onDecodePress}
-              disabled={loading || !!vinError || vin.length !== 17}
-              style={({ pressed }) => [
-                styles.button,
-                (loading || !!vinError || vin.length !== 17) &&
-                  styles.buttonDisabled,
-                pressed &&
-                  !(loading || !!vinError || vin.length !== 17) &&
-                  styles.buttonPressed,
-              ]}
-            >
-              <Text style={styles.buttonText}>{loading ? "…" : "Decode"}</Text>
-            </Pressable>
-          </View>
+              <ProviderSettingsPanel
+                settings={providerSettings}
+                onChange={async (next) => {
+                  setProviderSettings(next);
+                  await saveProviderSettings(next);
+                }}
+              />
+              <CacheSettingsPanel
+                settings={cacheSettings}
+                onChange={async (next) => {
+                  setCacheSettings(next);
+                  await saveCacheSettings(next);
+                }}
+              />
+            </ScrollView>
+          )}
 
-          {vinError && <Text style={styles.inlineError}>{vinError}</Text>}
+          {exportOpen && (
+            <ExportPanel
+              current={
+                decodedVin && fields
+                  ? { vin: decodedVin, record, fields }
+                  : null
+              }
+              history={recents}
+              format={format}
+            />
+          )}
 
-          {loading && (
-            <View style={styles.loading}>
-              <ActivityIndicator />
-              <Text style={styles.loadingText}>Decoding…</Text>
-            </View>
+          {importOpen && (
+            <ImageImport
+              onResult={(v, uri) => {
+                setScanPhoto({ vin: v, uri });
+                setVinInput(v);
+                setCandidates(null);
+                setBatch(false);
+                setImportOpen(false);
+              }}
+              onClose={() => setImportOpen(false)}
+            />
           )}
 
-          {errorMsg && !loading && (
-            <View style={styles.errorBox}>
-              <Text style={styles.errorTitle}>Lookup failed</Text>
-              <Text style={styles.errorText}>{errorMsg}</Text>
-              <Pressable onPress={onDecodePress} style={styles.retryBtn}>
-                <Text style={styles.retryText}>Retry</Text>
+          <View style={styles.modeRow}>
+            {(["single", "batch"] as const).map((m) => (
+              <Pressable
+                key={m}
+                onPress={() => setBatch(m === "batch")}
+                style={[
+                  styles.modeChip,
+                  batch === (m === "batch") && styles.modeChipOn,
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.modeChipText,
+                    batch === (m === "batch") && styles.modeChipTextOn,
+                  ]}
+                >
+                  {m === "batch" ? "Batch" : "Single"}
+                </Text>
               </Pressable>
-            </View>
-          )}
+            ))}
+          </View>
 
-          {!!recents.length && (
-            <View style={styles.recents}>
-              <Text style={styles.sectionTitle}>Recent</Text>
-              <ScrollView
-                horizontal
-                showsHorizontalScrollIndicator={false}
-                contentContainerStyle={styles.recentRow}
+          {batch ? (
+            <BatchPanel provider={provider} />
+          ) : (
+            <>
+            <View style={styles.row}>
+              <TextInput
+                ref={inputRef}
+                value={vinInput}
+                onChangeText={setVinInput}
+                autoCapitalize="characters"
+                autoCorrect={false}
+                placeholder="1HGCM82633A004352"
+                style={styles.input}
+                maxLength={32}
+              />
+
+              <Pressable
+                onPress={async () => {
+                  if (!permission?.granted) {
+                    const res = await requestPermission();
+                    if (!res.granted) return;
+                  }
+                  setScanMode(true);
+                }}
+                style={({ pressed }) => [
+                  styles.scanBtn,
+                  pressed && { opacity: 0.75 },
+                ]}
               >
-                {recents.map((r) => (
-                  <Pressable
-                    key={r}
-                    onPress={() => {
-                      setVinInput(r);
-                      decodeVin(r);
-                    }}
-                    style={({ pressed }) => [
-                      styles.recentChip,
-                      pressed && { opacity: 0.7 },
-                    ]}
-                  >
-                    <Text style={styles.recentChipText}>{r}</Text>
-                  </Pressable>
-                ))}
-              </ScrollView>
+                <Text style={styles.scanBtnText}>Scan VIN</Text>
+              </Pressable>
+
+              <Pressable
+                onPress={onDecodePress}
+                disabled={loading || !!vinError || vin.length !== 17}
+                style={({ pressed }) => [
+                  styles.button,
+                  (loading || !!vinError || vin.length !== 17) &&
+                    styles.buttonDisabled,
+                  pressed &&
+                    !(loading || !!vinError || vin.length !== 17) &&
+                    styles.buttonPressed,
+                ]}
+              >
+                <Text style={styles.buttonText}>{loading ? "…" : "Decode"}</Text>
+              </Pressable>
             </View>
-          )}
 
-          <ScrollView contentContainerStyle={styles.results}>
-            {fields?.map((f) => (
-              <View key={f.label} style={styles.card}>
-                <Text style={styles.cardLabel}>{f.label}</Text>
-                <Text style={styles.cardValue}>{String(f.value)}</Text>
+            {candidates && (
+              <VinCandidates
+                candidates={candidates}
+                onPick={(v) => {
+                  setVinInput(v);
+                  setScanPhoto((p) => (p ? { ...p, vin: v } : p));
+                  setCandidates(null);
+                }}
+                onDismiss={() => setCandidates(null)}
+              />
+            )}
+            {vinError && <Text style={styles.inlineError}>{vinError}</Text>}
+            {validation.warning && (
+              <Text style={styles.inlineWarning}>{validation.warning}</Text>
+            )}
+            {modelYear !== null && (
+              <Text style={styles.inlineHint}>Model year {modelYear}</Text>
+            )}
+
+            {loading && (
+              <View style={styles.loading}>
+                <ActivityIndicator />
+                <Text style={styles.loadingText}>Decoding…</Text>
               </View>
-            ))}
+            )}
+
+            {lookupError && !loading && (
+              <View style={styles.errorBox}>
+                <Text style={styles.errorTitle}>
+                  {LOOKUP_ERROR_HELP[lookupError.kind].title}
+                </Text>
+                <Text style={styles.errorText}>{lookupError.message}</Text>
+                <Text style={styles.errorHint}>
+                  {LOOKUP_ERROR_HELP[lookupError.kind].hint}
+                </Text>
+                <Pressable onPress={recoverFromError} style={styles.retryBtn}>
+                  <Text style={styles.retryText}>{recoveryLabel}</Text>
+                </Pressable>
+              </View>
+            )}
 
-            {!loading && !errorMsg && !fields && (
-              <Text style={styles.empty}>
-                Enter a 17-character VIN and tap Decode.
-              </Text>
+            {!!recents.length && (
+              <View style={styles.recents}>
+                <Text style={styles.sectionTitle}>Recent</Text>
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  contentContainerStyle={styles.recentRow}
+                >
+                  {recents.map((r) => (
+                    <Pressable
+                      key={r}
+                      onPress={() => {
+                        setVinInput(r);
+                        // Cached cards right away, vPIC's behind them
+                        decodeVin(r, { refresh: true });
+                      }}
+                      style={({ pressed }) => [
+                        styles.recentChip,
+                        pressed && { opacity: 0.7 },
+                      ]}
+                    >
+                      <Text style={styles.recentChipText}>{r}</Text>
+                      {!!recallCounts[r] && (
+                        <View style={styles.recallBadge}>
+                          <Text style={styles.recallBadgeText}>
+                            {recallCounts[r]}
+                          </Text>
+                        </View>
+                      )}
+                    </Pressable>
+                  ))}
+                </ScrollView>
+              </View>
             )}
-          </ScrollView>
+
+            <ScrollView contentContainerStyle={styles.results}>
+              {source === "cache" && !!fields && cachedAt !== null && (
+                <View style={styles.cacheRow}>
+                  <Text style={styles.cacheText}>
+                    {refreshing
+                      ? "cached · refreshing…"
+                      : `cached · ${cacheAgeLabel(cachedAt)}`}
+                  </Text>
+                  <Pressable
+                    onPress={() =>
+                      decodedVin &&
+                      decodeVin(decodedVin, { quiet: true, refresh: true })
+                    }
+                    disabled={refreshing}
+                    style={styles.refreshBtn}
+                  >
+                    <Text style={styles.refreshText}>Refresh</Text>
+                  </Pressable>
+                </View>
+              )}
+              {source === "offline" && !!fields && lookupError && (
+                <View style={styles.offlineBadge}>
+                  <Text style={styles.offlineBadgeTitle}>
+                    {offlineNote(lookupError).title}
+                  </Text>
+                  <Text style={styles.offlineBadgeText}>
+                    {offlineNote(lookupError).text}
+                  </Text>
+                </View>
+              )}
+              {fields?.map((f) => (
+                <View key={f.label} style={styles.card}>
+                  <Text style={styles.cardLabel}>{f.label}</Text>
+                  <Text style={styles.cardValue}>{String(f.value)}</Text>
+                </View>
+              ))}
+
+              {!!fields && decodedVin && !garageDraft && (
+                <View style={styles.resultActions}>
+                  <Pressable onPress={openGarageDraft} style={styles.garageBtn}>
+                    <Text style={styles.garageBtnText}>
+                      {garage.some((g) => g.vin === decodedVin)
+                        ? "In Garage · Edit"
+                        : "Save to Garage"}
+                    </Text>
+                  </Pressable>
+                  <Pressable
+                    onPress={() => router.push(vinHref(decodedVin))}
+                    style={styles.garageBtn}
+                  >
+                    <Text style={styles.garageBtnText}>Vehicle page · Share</Text>
+                  </Pressable>
+                </View>
+              )}
+              {garageDraft && (
+                <GarageEditor
+                  vehicle={garageDraft}
+                  isNew={!garage.some((g) => g.vin === garageDraft.vin)}
+                  onSave={saveGarageDraft}
+                  onCancel={() => setGarageDraft(null)}
+                />
+              )}
+
+              {record && (
+                <Pressable onPress={() => setShowAll((o) => !o)}>
+                  <Text style={styles.sectionAction}>
+                    {showAll ? "Hide all fields" : "Show all fields"}
+                  </Text>
+                </Pressable>
+              )}
+              {record && showAll && (
+                <AllFieldsPanel
+                  record={record}
+                  pinned={pinned}
+                  onTogglePin={togglePin}
+                />
+              )}
+
+              {record && decodedVin && (
+                <RecallsPanel
+                  provider={provider}
+                  vin={decodedVin}
+                  record={record}
+                  onRecallCount={async (n) => {
+                    try {
+                      setRecallCounts(
+                        await saveRecallCount(decodedVin, n, recents),
+                      );
+                    } catch {
+                      // only the badge on the recent chip is lost
+                    }
+                  }}
+                />
+              )}
+
+              {!loading && !lookupError && !fields && (
+                <Text style={styles.empty}>
+                  Enter a 17-character VIN and tap Decode.
+                </Text>
+              )}
+            </ScrollView>
+            </>
+          )}
         </View>
       </SafeAreaView>
     );
@@ -347,6 +683,18 @@ const styles = StyleSheet.create({
   h1: { fontSize: 28, fontWeight: "700" },
   sub: { opacity: 0.7 },
 
+  modeRow: { flexDirection: "row", gap: 8 },
+  modeChip: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 999,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  modeChipOn: { backgroundColor: "#111", borderColor: "#111" },
+  modeChipText: { fontWeight: "700" },
+  modeChipTextOn: { color: "white" },
+
   row: { flexDirection: "row", gap: 10, alignItems: "center" },
   input: {
     flex: 1,
@@ -368,6 +716,8 @@ const styles = StyleSheet.create({
   buttonText: { color: "white", fontWeight: "700" },
 
   inlineError: { color: "#b00020", fontWeight: "600" },
+  inlineWarning: { color: "#9a6700", fontWeight: "600" },
+  inlineHint: { opacity: 0.7, fontWeight: "600" },
 
   loading: {
     flexDirection: "row",
@@ -387,6 +737,7 @@ const styles = StyleSheet.create({
   },
   errorTitle: { fontWeight: "800" },
   errorText: { opacity: 0.8 },
+  errorHint: { fontSize: 13, opacity: 0.6 },
   retryBtn: {
     alignSelf: "flex-start",
     paddingVertical: 6,
@@ -398,8 +749,20 @@ const styles = StyleSheet.create({
 
   recents: { gap: 8, paddingTop: 6 },
   sectionTitle: { fontWeight: "800", opacity: 0.7 },
+  sectionRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  sectionAction: { fontWeight: "700", opacity: 0.6 },
+  headerActions: { flexDirection: "row", gap: 16 },
+  settings: { maxHeight: 360 },
+  settingsContent: { gap: 10 },
   recentRow: { gap: 10, paddingBottom: 6 },
   recentChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
     borderWidth: 1,
     borderColor: "#ddd",
     borderRadius: 999,
@@ -407,8 +770,46 @@ const styles = StyleSheet.create({
     paddingHorizontal: 12,
   },
   recentChipText: { fontWeight: "700" },
+  recallBadge: {
+    minWidth: 20,
+    paddingHorizontal: 5,
+    borderRadius: 999,
+    backgroundColor: "#b00020",
+    alignItems: "center",
+  },
+  recallBadgeText: { color: "white", fontWeight: "800", fontSize: 12 },
 
   results: { paddingVertical: 8, gap: 10 },
+  cacheRow: { flexDirection: "row", alignItems: "center", gap: 10 },
+  cacheText: { flex: 1, opacity: 0.6, fontWeight: "600" },
+  refreshBtn: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#ddd",
+  },
+  refreshText: { fontWeight: "700" },
+  resultActions: { flexDirection: "row", gap: 10 },
+  garageBtn: {
+    alignSelf: "flex-start",
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#ddd",
+  },
+  garageBtnText: { fontWeight: "700" },
+  offlineBadge: {
+    borderRadius: 14,
+    backgroundColor: "#fff8e1",
+    borderWidth: 1,
+    borderColor: "#f0dca0",
+    padding: 10,
+    gap: 2,
+  },
+  offlineBadgeTitle: { fontWeight: "800", color: "#9a6700" },
+  offlineBadgeText: { opacity: 0.8 },
   card: {
     borderWidth: 1,
     borderColor: "#e6e6e6",
@@ -429,25 +830,6 @@ const styles = StyleSheet.create({
   scanBtnText: { color: "white", fontWeight: "800" },
 });
 
-function extractVinFromText(text: string): string | null {
-  const cleaned = text.toUpperCase().replace(/[^A-Z0-9]/g, " ");
-  const candidates = cleaned.split(/\s+/).filter(Boolean);
-
-  // Try exact 17-char tokens first
-  for (const c of candidates) {
-    if (c.length === 17 && !/[IOQ]/.test(c)) return c;
-  }
-
-  // Fallback: scan sliding window
-  const joined = cleaned.replace(/\s+/g, "");
-  for (let i = 0; i + 17 <= joined.length; i++) {
-    const sub = joined.slice(i, i + 17);
-    if (!/[IOQ]/.test(sub)) return sub;
-  }
-
-  return null;
-}
-
 export const colors = {
   light: {
     background: "#FFFFFF",
@@ -0,0 +1,216 @@
+import { Image } from "expo-image";
+import { router } from "expo-router";
+import React, { useMemo, useState } from "react";
+import {
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { GarageEditor } from "@/components/vin/garage-editor";
+import { useGarage } from "@/hooks/use-garage";
+import { useNumberFormat } from "@/hooks/use-number-format";
+import { formatValueText } from "@/lib/format";
+import {
+  GARAGE_SORTS,
+  GarageSortKey,
+  removeVehicle,
+  saveVehicle,
+  searchGarage,
+  sortGarage,
+  vehicleTitle,
+} from "@/lib/vin/garage";
+import { deleteGaragePhoto } from "@/lib/vin/garage-photo";
+import { vinHref } from "@/lib/vin/links";
+
+export default function GarageScreen() {
+  const vehicles = useGarage();
+  const { format } = useNumberFormat();
+  const [query, setQuery] = useState("");
+  const [sortKey, setSortKey] = useState<GarageSortKey>("updated");
+  const [editing, setEditing] = useState<string | null>(null);
+
+  const shown = useMemo(
+    () => sortGarage(searchGarage(vehicles, query), sortKey),
+    [vehicles, query, sortKey],
+  );
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <View style={styles.container}>
+        <Text style={styles.h1}>Garage</Text>
+        <Text style={styles.sub}>
+          {vehicles.length === 1
+            ? "1 saved vehicle"
+            : `${vehicles.length} saved vehicles`}
+        </Text>
+
+        <TextInput
+          value={query}
+          onChangeText={setQuery}
+          autoCorrect={false}
+          autoCapitalize="none"
+          placeholder="Search VIN, name, make, notes or tags"
+          style={styles.input}
+        />
+        <View style={styles.sortRow}>
+          {GARAGE_SORTS.map((s) => (
+            <Pressable
+              key={s.key}
+              onPress={() => setSortKey(s.key)}
+              style={[styles.chip, sortKey === s.key && styles.chipOn]}
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  sortKey === s.key && styles.chipTextOn,
+                ]}
+              >
+                {s.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <ScrollView contentContainerStyle={styles.list}>
+          {shown.map((v) =>
+            editing === v.vin ? (
+              <GarageEditor
+                key={v.vin}
+                vehicle={v}
+                isNew={false}
+                onSave={async (next) => {
+                  await saveVehicle(next);
+                  setEditing(null);
+                }}
+                onCancel={() => setEditing(null)}
+                onDelete={async () => {
+                  if (v.photoUri) deleteGaragePhoto(v.photoUri);
+                  await removeVehicle(v.vin);
+                  setEditing(null);
+                }}
+              />
+            ) : (
+              <Pressable
+                key={v.vin}
+                onPress={() => setEditing(v.vin)}
+                style={({ pressed }) => [
+                  styles.card,
+                  pressed && styles.cardPressed,
+                ]}
+              >
+                {v.photoUri ? (
+                  <Image source={{ uri: v.photoUri }} style={styles.photo} />
+                ) : (
+                  <View style={[styles.photo, styles.noPhoto]} />
+                )}
+                <View style={styles.cardBody}>
+                  <View style={styles.titleRow}>
+                    <Text style={styles.title}>{vehicleTitle(v)}</Text>
+                    <Pressable
+                      onPress={() => router.push(vinHref(v.vin))}
+                      hitSlop={8}
+                    >
+                      <Text style={styles.details}>Details ›</Text>
+                    </Pressable>
+                  </View>
+                  <Text style={styles.vin}>
+                    {v.vin}
+                    {v.mileage !== null
+                      ? ` · ${formatValueText(String(v.mileage), format)} mi`
+                      : ""}
+                  </Text>
+                  {v.tags.length > 0 && (
+                    <View style={styles.tags}>
+                      {v.tags.map((t) => (
+                        <Pressable
+                          key={t}
+                          onPress={() => setQuery(t)}
+                          style={styles.tag}
+                        >
+                          <Text style={styles.tagText}>{t}</Text>
+                        </Pressable>
+                      ))}
+                    </View>
+                  )}
+                  {!!v.notes && (
+                    <Text style={styles.notes} numberOfLines={2}>
+                      {v.notes}
+                    </Text>
+                  )}
+                </View>
+              </Pressable>
+            ),
+          )}
+
+          {!vehicles.length && (
+            <Text style={styles.empty}>
+              Decode a VIN on the VIN tab and tap Save to Garage to keep it
+              here.
+            </Text>
+          )}
+          {vehicles.length > 0 && !shown.length && (
+            <Text style={styles.empty}>No vehicles match “{query}”.</Text>
+          )}
+        </ScrollView>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: { flex: 1 },
+  container: { flex: 1, padding: 16, gap: 10 },
+  h1: { fontSize: 28, fontWeight: "700" },
+  sub: { opacity: 0.7 },
+  input: {
+    borderWidth: 1,
+    borderColor: "#ccc",
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  sortRow: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+  chip: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 999,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  chipOn: { backgroundColor: "#111", borderColor: "#111" },
+  chipText: { fontWeight: "700" },
+  chipTextOn: { color: "white" },
+  list: { paddingVertical: 8, gap: 10 },
+  card: {
+    flexDirection: "row",
+    gap: 12,
+    borderWidth: 1,
+    borderColor: "#e6e6e6",
+    borderRadius: 14,
+    padding: 12,
+  },
+  cardPressed: { opacity: 0.7 },
+  photo: { width: 64, height: 64, borderRadius: 10 },
+  noPhoto: { backgroundColor: "#f2f2f2" },
+  cardBody: { flex: 1, gap: 4 },
+  titleRow: { flexDirection: "row", alignItems: "center", gap: 8 },
+  title: { flex: 1, fontSize: 17, fontWeight: "700" },
+  details: { fontWeight: "700", opacity: 0.6 },
+  vin: { opacity: 0.6, fontWeight: "600" },
+  tags: { flexDirection: "row", flexWrap: "wrap", gap: 6 },
+  tag: {
+    borderRadius: 999,
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+    backgroundColor: "#eef2ff",
+  },
+  tagText: { fontSize: 12, fontWeight: "700", color: "#3730a3" },
+  notes: { opacity: 0.8 },
+  empty: { paddingTop: 18, opacity: 0.6 },
+});
@@ -1,237 +1,500 @@
-import React, { useMemo, useReducer } from "react";
-import { Pressable, SafeAreaView, StyleSheet, Text, View } from "react-native";
+import * as Clipboard from "expo-clipboard";
+import React, { useEffect, useMemo, useReducer, useRef, useState } from "react";
+import {
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  useWindowDimensions,
+  View,
+} from "react-native";
 
-type Op = "+" | "−" | "×" | "÷";
-type Key =
-  | "C"
-  | "±"
-  | "%"
-  | "÷"
-  | "7"
-  | "8"
-  | "9"
-  | "×"
-  | "4"
-  | "5"
-  | "6"
-  | "−"
-  | "1"
-  | "2"
-  | "3"
-  | "+"
-  | "0"
-  | "."
-  | "=";
+import { ConversionPanel } from "@/components/calculator/conversion-panel";
+import { KeyboardCapture } from "@/components/calculator/keyboard-capture";
+import { MemoryBar, MemoryKey } from "@/components/calculator/memory-bar";
+import { ProgrammerPanel } from "@/components/calculator/programmer-panel";
+import { SettingsPanel } from "@/components/calculator/settings-panel";
+import { useNumberFormat } from "@/hooks/use-number-format";
+import {
+  evaluateTokens,
+  parseExpression,
+  tokensToString,
+} from "@/lib/calculator/expression";
+import {
+  HistoryEntry,
+  loadHistory,
+  makeHistoryEntry,
+  MAX_HISTORY,
+  saveHistory,
+} from "@/lib/calculator/history";
+import { keyToAction } from "@/lib/calculator/keyboard";
+import { buildKeypad, KeyDef } from "@/lib/calculator/keypads";
+import { loadMemory, saveMemory, VarName } from "@/lib/calculator/memory";
+import { ERROR_DISPLAY, formatNumber } from "@/lib/calculator/ops";
+import { IntegerMode, parseInteger } from "@/lib/calculator/programmer";
+import {
+  CalcMode,
+  displayValue,
+  initialState,
+  previewValue,
+  reducer,
+} from "@/lib/calculator/reducer";
+import {
+  CalcSettings,
+  defaultSettings,
+  integerMode,
+  loadSettings,
+  saveSettings,
+} from "@/lib/calculator/settings";
+import {
+  formatNumberText,
+  formatValueText,
+  parseNumberText,
+} from "@/lib/format";
 
-type State = {
-  display: string; // what you see
-  acc: number | null; // accumulator (previous value)
-  op: Op | null; // pending operation
-  entering: boolean; // are we typing a new number?
-  justEvaluated: boolean; // last key was '='
-};
+export default function CalculatorScreen() {
+  const [state, dispatch] = useReducer(reducer, initialState);
+  const [settings, setSettings] = useState<CalcSettings>(defaultSettings);
+  const numberFormat = useNumberFormat();
+  const format = numberFormat.format;
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [unitsOpen, setUnitsOpen] = useState(false);
+  const [storing, setStoring] = useState(false);
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const flashTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const memoryLoaded = useRef(false);
 
-type Action =
-  | { type: "DIGIT"; digit: string }
-  | { type: "DOT" }
-  | { type: "CLEAR" }
-  | { type: "TOGGLE_SIGN" }
-  | { type: "PERCENT" }
-  | { type: "OP"; op: Op }
-  | { type: "EQUALS" };
+  useEffect(() => {
+    (async () => {
+      const loaded = await loadSettings();
+      setSettings(loaded);
+      dispatch({ type: "SET_MODE", mode: loaded.mode });
+      dispatch({
+        type: "SET_CONTEXT",
+        context: { precision: loaded.precision, rounding: loaded.rounding },
+      });
+      dispatch({ type: "SET_ANGLE", angle: loaded.angle });
+      dispatch({ type: "SET_INTEGER_MODE", int: integerMode(loaded) });
+    })();
+    (async () => {
+      const loaded = await loadHistory();
+      // Entries recorded while the tape was loading come first; keep them
+      setHistory((prev) => {
+        if (!prev.length) return loaded;
+        const ids = new Set(prev.map((h) => h.id));
+        const merged = [...prev, ...loaded.filter((h) => !ids.has(h.id))].slice(
+          0,
+          MAX_HISTORY,
+        );
+        saveHistory(merged);
+        return merged;
+      });
+    })();
+    (async () => {
+      dispatch({ type: "RESTORE_MEMORY", bank: await loadMemory() });
+      memoryLoaded.current = true;
+    })();
+  }, []);
 
-const initialState: State = {
-  display: "0",
-  acc: null,
-  op: null,
-  entering: true,
-  justEvaluated: false,
-};
+  useEffect(() => {
+    // Don't overwrite the saved bank with the empty one before it loads
+    if (!memoryLoaded.current) return;
+    saveMemory({ memory: state.memory, vars: state.vars });
+  }, [state.memory, state.vars]);
 
-function toNumber(display: string): number {
-  const n = Number(display);
-  return Number.isFinite(n) ? n : 0;
-}
+  // Every '=' that ran an expression lands on the tape
+  useEffect(() => {
+    const ev = state.evaluated;
+    if (!ev) return;
+    setHistory((prev) => {
+      const next = [
+        makeHistoryEntry(ev.expression, ev.tokens, ev.result),
+        ...prev,
+      ].slice(0, MAX_HISTORY);
+      saveHistory(next);
+      return next;
+    });
+  }, [state.evaluated]);
 
-function formatNumber(n: number): string {
-  if (!Number.isFinite(n)) return "Error";
-  // Avoid showing "-0"
-  if (Object.is(n, -0)) n = 0;
-  // Trim long float tails a bit
-  const s = String(n);
-  if (s.includes("e")) return s;
-  if (s.includes(".")) {
-    // limit to ~10 decimals then trim
-    const fixed = n.toFixed(10).replace(/\.?0+$/, "");
-    return fixed;
+  function updateHistory(next: HistoryEntry[]) {
+    setHistory(next);
+    saveHistory(next);
   }
-  return s;
-}
 
-function applyOp(a: number, b: number, op: Op): number {
-  switch (op) {
-    case "+":
-      return a + b;
-    case "−":
-      return a - b;
-    case "×":
-      return a * b;
-    case "÷":
-      return b === 0 ? NaN : a / b;
+  async function updateSettings(next: CalcSettings) {
+    setSettings(next);
+    if (next.mode !== state.mode) {
+      dispatch({ type: "SET_MODE", mode: next.mode });
+    }
+    dispatch({
+      type: "SET_CONTEXT",
+      context: { precision: next.precision, rounding: next.rounding },
+    });
+    dispatch({ type: "SET_ANGLE", angle: next.angle });
+    const int = integerMode(next);
+    // Switching radix re-spells the numbers on screen, so only do it on change
+    if (JSON.stringify(int) !== JSON.stringify(state.context.int)) {
+      dispatch({ type: "SET_INTEGER_MODE", int });
+    }
+    await saveSettings(next);
   }
-}
 
-function reducer(state: State, action: Action): State {
-  const cur = toNumber(state.display);
+  function setIntegerMode(int: IntegerMode) {
+    updateSettings({
+      ...settings,
+      radix: int.radix,
+      wordSize: int.bits,
+      signed: int.signed,
+    });
+  }
 
-  switch (action.type) {
-    case "CLEAR":
-      return { ...initialState };
+  const { width, height } = useWindowDimensions();
+  const landscape = width > height;
+  const int = state.context.int;
+  const programmer = !!int;
+  const scientific = !programmer && (settings.scientific || landscape);
+  const fill = scientific || programmer;
 
-    case "DIGIT": {
-      // If we just evaluated, starting digits begins a new entry
-      const startFresh =
-        state.justEvaluated && state.op === null && state.acc === null;
-      if (!state.entering || startFresh) {
-        return {
-          ...state,
-          display: action.digit,
-          entering: true,
-          justEvaluated: false,
-        };
-      }
-      // entering current number
-      if (state.display === "0") {
-        return { ...state, display: action.digit, justEvaluated: false };
-      }
-      return {
-        ...state,
-        display: state.display + action.digit,
-        justEvaluated: false,
-      };
-    }
+  const keypad = useMemo(
+    () =>
+      buildKeypad({
+        mode: state.mode,
+        angle: state.angle,
+        scientific,
+        landscape,
+        int,
+      }),
+    [state.mode, state.angle, scientific, landscape, int],
+  );
 
-    case "DOT": {
-      const startFresh =
-        state.justEvaluated && state.op === null && state.acc === null;
-      if (!state.entering || startFresh) {
-        return {
-          ...state,
-          display: "0.",
-          entering: true,
-          justEvaluated: false,
-        };
-      }
-      if (state.display.includes(".")) return state;
-      return { ...state, display: state.display + ".", justEvaluated: false };
+  function onKeyPress(key: KeyDef) {
+    // The angle unit is a saved setting, so it goes through updateSettings
+    if (key.action.type === "SET_ANGLE") {
+      return updateSettings({ ...settings, angle: key.action.angle });
     }
+    dispatch(key.action);
+  }
 
-    case "TOGGLE_SIGN": {
-      if (state.display === "0") return state;
-      const n = -cur;
-      return { ...state, display: formatNumber(n), justEvaluated: false };
-    }
+  // Hardware keys light up the on-screen key they stand for
+  function onHardwareKey(key: string): boolean {
+    const action = keyToAction(key, programmer);
+    if (!action) return false;
+    setActiveKey(JSON.stringify(action));
+    clearTimeout(flashTimer.current);
+    flashTimer.current = setTimeout(() => setActiveKey(null), 150);
+    dispatch(action);
+    return true;
+  }
 
-    case "PERCENT": {
-      // Common mobile behavior: percent turns current entry into /100.
-      const n = cur / 100;
-      return { ...state, display: formatNumber(n), justEvaluated: false };
-    }
+  async function copyDisplay() {
+    await Clipboard.setStringAsync(displayText);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1200);
+  }
 
-    case "OP": {
-      // If we have a pending op and we were entering, apply it now (immediate-execution)
-      if (state.op && state.acc !== null && state.entering) {
-        const nextAcc = applyOp(state.acc, cur, state.op);
-        return {
-          display: formatNumber(nextAcc),
-          acc: nextAcc,
-          op: action.op,
-          entering: false,
-          justEvaluated: false,
-        };
+  function paste(text: string) {
+    const parseNum = (t: string) => {
+      if (!int) return parseNumberText(t, format);
+      const digits = t.toUpperCase();
+      return parseInteger(digits, int) === null ? null : digits;
+    };
+    const tokens = parseExpression(text, parseNum, state.context);
+    if (!tokens) return;
+    // Immediate mode has no expression to hold it, so take the result
+    if (state.mode === "immediate" && tokens.length > 1) {
+      try {
+        const value = formatNumber(evaluateTokens(tokens, state.context));
+        dispatch({ type: "LOAD_VALUE", value });
+      } catch {
+        // e.g. a pasted division by zero; leave the calculator as it was
       }
-
-      // No pending op yet: move current into accumulator
-      const nextAcc = state.acc ?? cur;
-      return {
-        ...state,
-        acc: nextAcc,
-        op: action.op,
-        entering: false,
-        justEvaluated: false,
-      };
+      return;
     }
+    dispatch({ type: "LOAD_EXPRESSION", tokens });
+  }
 
-    case "EQUALS": {
-      if (!state.op || state.acc === null) {
-        return { ...state, justEvaluated: true, entering: false };
-      }
+  function onMemoryKey(k: MemoryKey) {
+    if (k === "MC") return dispatch({ type: "MEMORY_CLEAR" });
+    if (k === "MR") return dispatch({ type: "MEMORY_RECALL" });
+    if (k === "M+") return dispatch({ type: "MEMORY_ADD" });
+    return dispatch({ type: "MEMORY_SUBTRACT" });
+  }
 
-      const result = applyOp(state.acc, cur, state.op);
-      return {
-        display: formatNumber(result),
-        acc: null,
-        op: null,
-        entering: false,
-        justEvaluated: true,
-      };
+  function onVar(name: VarName) {
+    if (storing) {
+      setStoring(false);
+      return dispatch({ type: "STORE_VAR", name });
     }
+    return dispatch({ type: "RECALL_VAR", name });
   }
-}
 
-export default function CalculatorScreen() {
-  const [state, dispatch] = useReducer(reducer, initialState);
+  // Numbers stay canonical in state; the locale only applies on screen.
+  // Programmer mode shows its radix digits as they are.
+  const localize = (text: string) =>
+    int ? text : formatNumberText(text, format);
+  const typing = state.entering && !state.justEvaluated;
+  const displayText =
+    int || state.display === ERROR_DISPLAY
+      ? state.display
+      : typing
+        ? formatNumberText(state.display, format)
+        : formatValueText(state.display, format);
+  const expression = tokensToString(state.tokens, localize);
+  const storedVars = Object.keys(state.vars).sort().join(" ");
+  const preview = state.mode === "expression" ? previewValue(state) : null;
+  const previewText =
+    preview === null || int ? preview : formatValueText(preview, format);
 
-  const keys: Key[][] = useMemo(
-    () => [
-      ["C", "±", "%", "÷"],
-      ["7", "8", "9", "×"],
-      ["4", "5", "6", "−"],
-      ["1", "2", "3", "+"],
-      ["0", ".", "="],
-    ],
-    [],
-  );
+  return (
+    <SafeAreaView style={styles.safe}>
+      <KeyboardCapture
+        onKey={onHardwareKey}
+        onCopy={copyDisplay}
+        onPaste={paste}
+      />
+      <View style={styles.container}>
+        <View style={styles.modeRow}>
+          {(["expression", "immediate"] as CalcMode[]).map((m) => (
+            <Pressable
+              key={m}
+              onPress={() => updateSettings({ ...settings, mode: m })}
+              style={[styles.modeChip, state.mode === m && styles.modeChipOn]}
+            >
+              <Text
+                style={[
+                  styles.modeChipText,
+                  state.mode === m && styles.modeChipTextOn,
+                ]}
+              >
+                {m === "expression" ? "Expression" : "Immediate"}
+              </Text>
+            </Pressable>
+          ))}
+          <Pressable
+            onPress={() =>
+              updateSettings({
+                ...settings,
+                scientific: !settings.scientific,
+                programmer: false,
+              })
+            }
+            style={[
+              styles.modeChip,
+              styles.pushRight,
+              scientific && styles.modeChipOn,
+            ]}
+          >
+            <Text
+              style={[styles.modeChipText, scientific && styles.modeChipTextOn]}
+            >
+              Sci
+            </Text>
+          </Pressable>
+          <Pressable
+            onPress={() =>
+              updateSettings({
+                ...settings,
+                programmer: !settings.programmer,
+                scientific: false,
+              })
+            }
+            style={[styles.modeChip, programmer && styles.modeChipOn]}
+          >
+            <Text
+              style={[styles.modeChipText, programmer && styles.modeChipTextOn]}
+            >
+              Prog
+            </Text>
+          </Pressable>
+          <Pressable
+            onPress={() => setUnitsOpen((v) => !v)}
+            style={[styles.modeChip, unitsOpen && styles.modeChipOn]}
+          >
+            <Text
+              style={[styles.modeChipText, unitsOpen && styles.modeChipTextOn]}
+            >
+              Units
+            </Text>
+          </Pressable>
+          <Pressable
+            onPress={() => setSettingsOpen((v) => !v)}
+            style={[styles.modeChip, settingsOpen && styles.modeChipOn]}
+          >
+            <Text
+              style={[
+                styles.modeChipText,
+                settingsOpen && styles.modeChipTextOn,
+              ]}
+            >
+              ⚙︎
+            </Text>
+          </Pressable>
+          <Pressable
+            onPress={() => setHistoryOpen((v) => !v)}
+            style={[styles.modeChip, historyOpen && styles.modeChipOn]}
+          >
+            <Text
+              style={[
+                styles.modeChipText,
+                historyOpen && styles.modeChipTextOn,
+              ]}
+            >
+              History{history.length ? ` (${history.length})` : ""}
+            </Text>
+          </Pressable>
+        </View>
 
-  function onKeyPress(k: Key) {
-    if (k === "C") return dispatch({ type: "CLEAR" });
-    if (k === "±") return dispatch({ type: "TOGGLE_SIGN" });
-    if (k === "%") return dispatch({ type: "PERCENT" });
-    if (k === ".") return dispatch({ type: "DOT" });
-    if (k === "=") return dispatch({ type: "EQUALS" });
+        {settingsOpen && (
+          <SettingsPanel
+            settings={settings}
+            onChange={updateSettings}
+            format={numberFormat.settings}
+            onFormatChange={numberFormat.update}
+          />
+        )}
 
-    if (k === "+" || k === "−" || k === "×" || k === "÷") {
-      return dispatch({ type: "OP", op: k });
-    }
+        {unitsOpen && (
+          <ConversionPanel
+            value={displayValue(state)}
+            context={state.context}
+            format={format}
+            onUse={(result) =>
+              dispatch({ type: "LOAD_VALUE", value: formatNumber(result) })
+            }
+          />
+        )}
 
-    // digits
-    return dispatch({ type: "DIGIT", digit: k });
-  }
+        {historyOpen && (
+          <View style={styles.tape}>
+            <View style={styles.tapeHeader}>
+              <Text style={styles.tapeTitle}>History</Text>
+              {!!history.length && (
+                <Pressable onPress={() => updateHistory([])}>
+                  <Text style={styles.tapeClear}>Clear all</Text>
+                </Pressable>
+              )}
+            </View>
+            <ScrollView contentContainerStyle={styles.tapeList}>
+              {history.map((h) => (
+                <View key={h.id} style={styles.tapeRow}>
+                  <View style={styles.tapeBody}>
+                    <Pressable
+                      onPress={() => {
+                        dispatch({ type: "LOAD_EXPRESSION", tokens: h.tokens });
+                        setHistoryOpen(false);
+                      }}
+                    >
+                      <Text numberOfLines={1} style={styles.tapeExpression}>
+                        {h.expression}
+                      </Text>
+                    </Pressable>
+                    <Pressable
+                      onPress={() => {
+                        dispatch({ type: "LOAD_VALUE", value: h.result });
+                        setHistoryOpen(false);
+                      }}
+                    >
+                      <Text numberOfLines={1} style={styles.tapeResult}>
+                        = {formatValueText(h.result, format)}
+                      </Text>
+                    </Pressable>
+                  </View>
+                  <Pressable
+                    onPress={() =>
+                      updateHistory(history.filter((x) => x.id !== h.id))
+                    }
+                    hitSlop={8}
+                    style={styles.tapeDelete}
+                  >
+                    <Text style={styles.tapeDeleteText}>✕</Text>
+                  </Pressable>
+                </View>
+              ))}
+              {!history.length && (
+                <Text style={styles.tapeEmpty}>
+                  Results show up here after you press =.
+                </Text>
+              )}
+            </ScrollView>
+          </View>
+        )}
 
-  return (
-    <SafeAreaView style={styles.safe}>
-      <View style={styles.container}>
-        <View style={styles.display}>
+        <Pressable onLongPress={copyDisplay} style={styles.display}>
+          {(scientific || state.memory !== null || !!storedVars || copied) && (
+            <View style={styles.indicators}>
+              {copied && <Text style={styles.indicatorVars}>Copied</Text>}
+              {scientific && (
+                <Text style={styles.indicatorVars}>
+                  {state.angle === "deg" ? "DEG" : "RAD"}
+                </Text>
+              )}
+              {state.memory !== null && <Text style={styles.indicator}>M</Text>}
+              {!!storedVars && (
+                <Text style={styles.indicatorVars}>{storedVars}</Text>
+              )}
+            </View>
+          )}
+          {!!expression && (
+            <Text numberOfLines={2} style={styles.expressionText}>
+              {expression}
+            </Text>
+          )}
           <Text
             numberOfLines={1}
             adjustsFontSizeToFit
             style={styles.displayText}
           >
-            {state.display}
+            {displayText}
           </Text>
-        </View>
+          {previewText !== null && (
+            <Text numberOfLines={1} style={styles.previewText}>
+              = {previewText}
+            </Text>
+          )}
+        </Pressable>
 
-        <View style={styles.pad}>
-          {keys.map((row, rowIdx) => (
-            <View key={rowIdx} style={styles.row}>
-              {row.map((k) => (
-                <CalcKey
-                  key={k}
-                  label={k}
-                  onPress={() => onKeyPress(k)}
-                  wide={k === "0"}
-                />
-              ))}
+        {int ? (
+          <ProgrammerPanel
+            display={state.display}
+            int={int}
+            onModeChange={setIntegerMode}
+            onFlipBit={(bit) => dispatch({ type: "TOGGLE_BIT", bit })}
+          />
+        ) : (
+          <MemoryBar
+            bank={{ memory: state.memory, vars: state.vars }}
+            storing={storing}
+            onMemoryKey={onMemoryKey}
+            onToggleStore={() => setStoring((v) => !v)}
+            onVar={onVar}
+            format={format}
+            singleRow={landscape}
+          />
+        )}
+
+        <View style={[styles.pad, fill && styles.padFill]}>
+          {keypad.map((row, rowIdx) => (
+            <View key={rowIdx} style={[styles.row, fill && styles.rowFill]}>
+              {row.map((k, i) =>
+                k ? (
+                  <CalcKey
+                    key={i}
+                    label={k.action.type === "DOT" ? format.decimal : k.label}
+                    onPress={() => onKeyPress(k)}
+                    wide={k.wide}
+                    fn={k.fn}
+                    disabled={k.disabled}
+                    active={JSON.stringify(k.action) === activeKey}
+                    fill={fill}
+                  />
+                ) : (
+                  <View key={i} style={styles.keySpacer} />
+                ),
+              )}
             </View>
           ))}
         </View>
@@ -244,21 +507,39 @@ function CalcKey({
   label,
   onPress,
   wide,
+  fn,
+  disabled,
+  active,
+  fill,
 }: {
   label: string;
   onPress: () => void;
   wide?: boolean;
+  fn?: boolean;
+  disabled?: boolean;
+  active?: boolean; // a hardware key for it was just pressed
+  fill?: boolean; // stretch to the row height instead of the fixed one
 }) {
   return (
     <Pressable
       onPress={onPress}
+      disabled={disabled}
       style={({ pressed }) => [
         styles.key,
+        disabled && styles.keyDisabled,
+        !fill && (fn ? styles.keyShort : styles.keyTall),
+        fn && styles.keyFn,
         wide && styles.keyWide,
-        pressed && styles.keyPressed,
+        (pressed || active) && styles.keyPressed,
       ]}
     >
-      <Text style={styles.keyText}>{label}</Text>
+      <Text
+        numberOfLines={1}
+        adjustsFontSizeToFit
+        style={[styles.keyText, fn && styles.keyFnText]}
+      >
+        {label}
+      </Text>
     </Pressable>
   );
 }
@@ -267,6 +548,38 @@ const styles = StyleSheet.create({
   safe: { flex: 1 },
   container: { flex: 1, padding: 12, gap: 12 },
 
+  modeRow: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+  modeChip: {
+    borderWidth: 1,
+    borderColor: "#444",
+    borderRadius: 999,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  modeChipOn: { backgroundColor: "#222", borderColor: "#222" },
+  modeChipText: { color: "#888", fontWeight: "700" },
+  modeChipTextOn: { color: "white" },
+  pushRight: { marginLeft: "auto" },
+
+  tape: {
+    maxHeight: 220,
+    borderRadius: 16,
+    backgroundColor: "#181818",
+    padding: 12,
+    gap: 8,
+  },
+  tapeHeader: { flexDirection: "row", justifyContent: "space-between" },
+  tapeTitle: { color: "#aaa", fontWeight: "800" },
+  tapeClear: { color: "#ff6b6b", fontWeight: "700" },
+  tapeList: { gap: 10 },
+  tapeRow: { flexDirection: "row", alignItems: "center", gap: 10 },
+  tapeBody: { flex: 1, alignItems: "flex-end" },
+  tapeExpression: { color: "#999", fontSize: 15 },
+  tapeResult: { color: "white", fontSize: 20, fontWeight: "600" },
+  tapeDelete: { padding: 4 },
+  tapeDeleteText: { color: "#777", fontWeight: "800" },
+  tapeEmpty: { color: "#777" },
+
   display: {
     flex: 1,
     justifyContent: "flex-end",
@@ -275,20 +588,38 @@ const styles = StyleSheet.create({
     borderRadius: 16,
     backgroundColor: "#111",
   },
+  indicators: {
+    position: "absolute",
+    top: 10,
+    left: 12,
+    flexDirection: "row",
+    gap: 8,
+  },
+  indicator: { color: "#f5a623", fontSize: 14, fontWeight: "800" },
+  indicatorVars: { color: "#888", fontSize: 14, fontWeight: "700" },
+  expressionText: { color: "#999", fontSize: 22, fontWeight: "500" },
   displayText: { color: "white", fontSize: 64, fontWeight: "600" },
+  previewText: { color: "#7a7a7a", fontSize: 24, fontWeight: "500" },
 
   pad: { gap: 10 },
+  padFill: { flex: 3, gap: 6 },
   row: { flexDirection: "row", gap: 10 },
+  rowFill: { flex: 1, gap: 6 },
 
   key: {
     flex: 1,
-    height: 72,
     borderRadius: 18,
     backgroundColor: "#222",
     justifyContent: "center",
     alignItems: "center",
   },
+  keyTall: { height: 72 },
+  keyShort: { height: 48 },
+  keyFn: { backgroundColor: "#1a1a1a", borderRadius: 12 },
+  keySpacer: { flex: 1 },
+  keyDisabled: { opacity: 0.35 },
   keyWide: { flex: 2.07 },
   keyPressed: { opacity: 0.6 },
   keyText: { color: "white", fontSize: 26, fontWeight: "600" },
+  keyFnText: { fontSize: 17 },
 });
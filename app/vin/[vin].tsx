@@ -0,0 +1,337 @@
+import { Stack, useLocalSearchParams } from "expo-router";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+import { AllFieldsPanel } from "@/components/vin/all-fields";
+import { GarageEditor } from "@/components/vin/garage-editor";
+import { RecallsPanel } from "@/components/vin/recalls-panel";
+import { useGarage } from "@/hooks/use-garage";
+import { useNumberFormat } from "@/hooks/use-number-format";
+import { formatValueText } from "@/lib/format";
+import { cacheAgeLabel, loadCacheSettings } from "@/lib/vin/cache";
+import { createProvider } from "@/lib/vin/create-provider";
+import {
+  asLookupError,
+  LOOKUP_ERROR_HELP,
+  LookupError,
+} from "@/lib/vin/errors";
+import { loadPinnedFields, savePinnedFields } from "@/lib/vin/field-groups";
+import { summaryFields } from "@/lib/vin/fields";
+import { GarageVehicle, saveVehicle } from "@/lib/vin/garage";
+import { shareVinLink, vinLink } from "@/lib/vin/links";
+import { lookupVin, offlineNote, VinLookup } from "@/lib/vin/lookup";
+import { loadProviderSettings, VinDecoderProvider } from "@/lib/vin/provider";
+import { saveRecallCount } from "@/lib/vin/recalls";
+import { loadRecents } from "@/lib/vin/recents";
+import { normalizeVin, validateVin } from "@/lib/vin/vin";
+
+// One vehicle, reachable from anywhere: rncalculatorrn://vin/<VIN>, the
+// same path on web, and links shared from the app.
+export default function VehicleScreen() {
+  const params = useLocalSearchParams<{ vin: string }>();
+  const vin = normalizeVin(String(params.vin ?? ""));
+  const invalid = vin ? validateVin(vin).error : "No VIN in the link.";
+  const { format } = useNumberFormat();
+  const garage = useGarage();
+  const saved = garage.find((g) => g.vin === vin);
+
+  const [provider, setProvider] = useState<VinDecoderProvider | null>(null);
+  const [result, setResult] = useState<VinLookup | null>(null);
+  const [error, setError] = useState<LookupError | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const [pinned, setPinned] = useState<string[]>([]);
+  const [showAll, setShowAll] = useState(false);
+  const [garageDraft, setGarageDraft] = useState<GarageVehicle | null>(null);
+  // Shown when there's no share sheet to hand the link to
+  const [copyLink, setCopyLink] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => setPinned(await loadPinnedFields()))();
+  }, []);
+
+  useEffect(() => {
+    if (invalid) return;
+    // The link can change under us (a second deep link while open)
+    const controller = new AbortController();
+    setResult(null);
+    setError(null);
+    (async () => {
+      try {
+        const p = createProvider(await loadProviderSettings());
+        const settings = await loadCacheSettings();
+        const r = await lookupVin(p, vin, settings, {
+          signal: controller.signal,
+        });
+        if (controller.signal.aborted) return;
+        setProvider(p);
+        setResult(r);
+      } catch (e) {
+        if (!controller.signal.aborted) setError(asLookupError(e));
+      }
+    })();
+    return () => controller.abort();
+  }, [vin, invalid, attempt]);
+
+  const record = result && result.source !== "offline" ? result.record : null;
+  // Fallback cards show under the error that caused them
+  const shownError = error ?? result?.error ?? null;
+  const fields = useMemo(() => {
+    if (!result) return null;
+    return result.source === "offline"
+      ? result.fields
+      : summaryFields(result.record, format, pinned);
+  }, [result, format, pinned]);
+
+  const title =
+    saved?.nickname ||
+    (record
+      ? [record.ModelYear, record.Make, record.Model].filter(Boolean).join(" ")
+      : "") ||
+    vin;
+
+  async function togglePin(key: string) {
+    const next = pinned.includes(key)
+      ? pinned.filter((k) => k !== key)
+      : [...pinned, key];
+    setPinned(next);
+    await savePinnedFields(next);
+  }
+
+  async function share() {
+    try {
+      await shareVinLink(vin, title !== vin ? title : undefined);
+    } catch {
+      setCopyLink(vinLink(vin));
+    }
+  }
+
+  function openGarageDraft() {
+    if (!fields) return;
+    const now = Date.now();
+    setGarageDraft({
+      vin,
+      record,
+      fields,
+      nickname: saved?.nickname ?? "",
+      notes: saved?.notes ?? "",
+      tags: saved?.tags ?? [],
+      mileage: saved?.mileage ?? null,
+      photoUri: saved?.photoUri ?? null,
+      savedAt: saved?.savedAt ?? now,
+      updatedAt: now,
+    });
+  }
+
+  return (
+    <>
+      <Stack.Screen options={{ title: invalid ? "Vehicle" : vin }} />
+      <ScrollView contentContainerStyle={styles.container}>
+        {invalid ? (
+          <View style={styles.errorBox}>
+            <Text style={styles.errorTitle}>Can’t open this VIN</Text>
+            <Text style={styles.errorText}>
+              {vin ? `${vin}: ${invalid}` : invalid}
+            </Text>
+          </View>
+        ) : (
+          <>
+            <Text style={styles.h1}>{title}</Text>
+            <Text style={styles.sub}>{vin}</Text>
+
+            <View style={styles.actions}>
+              <Pressable onPress={share} style={styles.button}>
+                <Text style={styles.buttonText}>Share link</Text>
+              </Pressable>
+              {!!fields && !garageDraft && (
+                <Pressable
+                  onPress={openGarageDraft}
+                  style={styles.secondaryBtn}
+                >
+                  <Text style={styles.secondaryText}>
+                    {saved ? "In Garage · Edit" : "Save to Garage"}
+                  </Text>
+                </Pressable>
+              )}
+            </View>
+            {copyLink && (
+              <Text selectable style={styles.link}>
+                {copyLink}
+              </Text>
+            )}
+
+            {garageDraft && (
+              <GarageEditor
+                vehicle={garageDraft}
+                isNew={!saved}
+                onSave={async (v) => {
+                  await saveVehicle(v);
+                  setGarageDraft(null);
+                }}
+                onCancel={() => setGarageDraft(null)}
+              />
+            )}
+            {saved &&
+              !garageDraft &&
+              (saved.mileage !== null || !!saved.notes) && (
+                <View style={styles.garageNote}>
+                  {saved.mileage !== null && (
+                    <Text style={styles.garageNoteText}>
+                      {formatValueText(String(saved.mileage), format)} mi
+                    </Text>
+                  )}
+                  {!!saved.notes && (
+                    <Text style={styles.garageNoteText}>{saved.notes}</Text>
+                  )}
+                </View>
+              )}
+
+            {!result && !error && <ActivityIndicator />}
+            {shownError && (
+              <View style={styles.errorBox}>
+                <Text style={styles.errorTitle}>
+                  {LOOKUP_ERROR_HELP[shownError.kind].title}
+                </Text>
+                <Text style={styles.errorText}>{shownError.message}</Text>
+                {shownError.kind !== "invalid-vin" && (
+                  <Pressable
+                    onPress={() => setAttempt((a) => a + 1)}
+                    style={styles.retryBtn}
+                  >
+                    <Text style={styles.retryText}>Retry</Text>
+                  </Pressable>
+                )}
+              </View>
+            )}
+
+            {result?.source === "cache" && result.cachedAt !== null && (
+              <Text style={styles.cacheText}>
+                cached · {cacheAgeLabel(result.cachedAt)}
+              </Text>
+            )}
+            {result?.source === "offline" && (
+              <View style={styles.offlineBadge}>
+                <Text style={styles.offlineBadgeTitle}>
+                  {offlineNote(result.error).title}
+                </Text>
+                <Text style={styles.offlineBadgeText}>
+                  {offlineNote(result.error).text}
+                </Text>
+              </View>
+            )}
+            {fields?.map((f) => (
+              <View key={f.label} style={styles.card}>
+                <Text style={styles.cardLabel}>{f.label}</Text>
+                <Text style={styles.cardValue}>{String(f.value)}</Text>
+              </View>
+            ))}
+
+            {record && (
+              <Pressable onPress={() => setShowAll((o) => !o)}>
+                <Text style={styles.sectionAction}>
+                  {showAll ? "Hide all fields" : "Show all fields"}
+                </Text>
+              </Pressable>
+            )}
+            {record && showAll && (
+              <AllFieldsPanel
+                record={record}
+                pinned={pinned}
+                onTogglePin={togglePin}
+              />
+            )}
+            {record && provider && (
+              <RecallsPanel
+                provider={provider}
+                vin={vin}
+                record={record}
+                onRecallCount={async (n) => {
+                  try {
+                    await saveRecallCount(vin, n, await loadRecents());
+                  } catch {
+                    // only the badge on the recent chip is lost
+                  }
+                }}
+              />
+            )}
+          </>
+        )}
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { padding: 16, gap: 10 },
+  h1: { fontSize: 24, fontWeight: "800" },
+  sub: { opacity: 0.6, fontWeight: "600", letterSpacing: 0.5 },
+  actions: { flexDirection: "row", gap: 10 },
+  button: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: "#111",
+  },
+  buttonText: { color: "white", fontWeight: "700" },
+  secondaryBtn: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#ddd",
+  },
+  secondaryText: { fontWeight: "700" },
+  link: { fontWeight: "600", color: "#3730a3" },
+  garageNote: {
+    borderRadius: 12,
+    padding: 10,
+    gap: 4,
+    backgroundColor: "#eef2ff",
+  },
+  garageNoteText: { color: "#3730a3", fontWeight: "600" },
+  cacheText: { opacity: 0.6, fontWeight: "600" },
+  offlineBadge: {
+    borderRadius: 14,
+    backgroundColor: "#fff8e1",
+    borderWidth: 1,
+    borderColor: "#f0dca0",
+    padding: 10,
+    gap: 2,
+  },
+  offlineBadgeTitle: { fontWeight: "800", color: "#9a6700" },
+  offlineBadgeText: { opacity: 0.8 },
+  card: {
+    borderWidth: 1,
+    borderColor: "#e6e6e6",
+    borderRadius: 14,
+    padding: 12,
+    gap: 6,
+  },
+  cardLabel: { fontSize: 12, opacity: 0.6, fontWeight: "700" },
+  cardValue: { fontSize: 18, fontWeight: "600" },
+  sectionAction: { fontWeight: "700", opacity: 0.6 },
+  errorBox: {
+    borderWidth: 1,
+    borderColor: "#f0c2c2",
+    backgroundColor: "#fff5f5",
+    borderRadius: 14,
+    padding: 12,
+    gap: 6,
+  },
+  errorTitle: { fontWeight: "800" },
+  errorText: { opacity: 0.8 },
+  retryBtn: {
+    alignSelf: "flex-start",
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    backgroundColor: "#111",
+  },
+  retryText: { color: "white", fontWeight: "700" },
+});
@@ -0,0 +1,138 @@
+import React, { useState } from "react";
+import { Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
+
+import { Decimal, DecimalContext } from "@/lib/calculator/decimal";
+import { convert, UNIT_CATEGORIES, Unit } from "@/lib/calculator/units";
+import { formatDecimal, NumberFormat } from "@/lib/format";
+
+export function ConversionPanel({
+  value,
+  context,
+  format,
+  onUse,
+}: {
+  value: Decimal | null; // the number on the display, null while it shows Error
+  context: DecimalContext;
+  format: NumberFormat;
+  onUse: (result: Decimal) => void;
+}) {
+  const [categoryId, setCategoryId] = useState(UNIT_CATEGORIES[0].id);
+  const [fromId, setFromId] = useState(UNIT_CATEGORIES[0].units[0].id);
+
+  const category =
+    UNIT_CATEGORIES.find((c) => c.id === categoryId) ?? UNIT_CATEGORIES[0];
+  const from = category.units.find((u) => u.id === fromId) ?? category.units[0];
+
+  function result(to: Unit): Decimal | null {
+    if (value === null) return null;
+    try {
+      return convert(value, from, to, context);
+    } catch {
+      return null;
+    }
+  }
+
+  return (
+    <View style={styles.panel}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.wrap}
+      >
+        {UNIT_CATEGORIES.map((c) => (
+          <Pressable
+            key={c.id}
+            onPress={() => {
+              setCategoryId(c.id);
+              setFromId(c.units[0].id);
+            }}
+            style={[styles.chip, c.id === category.id && styles.chipOn]}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                c.id === category.id && styles.chipTextOn,
+              ]}
+            >
+              {c.label}
+            </Text>
+          </Pressable>
+        ))}
+      </ScrollView>
+
+      <View style={styles.fromRow}>
+        <Text style={styles.title}>From</Text>
+        {category.units.map((u) => (
+          <Pressable
+            key={u.id}
+            onPress={() => setFromId(u.id)}
+            style={[styles.chip, u.id === from.id && styles.chipOn]}
+          >
+            <Text
+              style={[styles.chipText, u.id === from.id && styles.chipTextOn]}
+            >
+              {u.label}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {/* Tapping a result makes it the operand, so you can keep calculating */}
+      {category.units
+        .filter((u) => u.id !== from.id)
+        .map((u) => {
+          const out = result(u);
+          return (
+            <Pressable
+              key={u.id}
+              onPress={() => out && onUse(out)}
+              disabled={!out}
+              style={({ pressed }) => [
+                styles.resultRow,
+                pressed && styles.resultPressed,
+              ]}
+            >
+              <Text numberOfLines={1} style={styles.resultValue}>
+                {out ? formatDecimal(out, format) : "—"}
+              </Text>
+              <Text style={styles.resultUnit}>{u.label}</Text>
+            </Pressable>
+          );
+        })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    borderRadius: 16,
+    backgroundColor: "#181818",
+    padding: 12,
+    gap: 8,
+  },
+  title: { color: "#aaa", fontWeight: "800" },
+  wrap: { flexDirection: "row", gap: 8 },
+  fromRow: { flexDirection: "row", alignItems: "center", gap: 8 },
+  chip: {
+    borderWidth: 1,
+    borderColor: "#444",
+    borderRadius: 999,
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+  },
+  chipOn: { backgroundColor: "#333", borderColor: "#333" },
+  chipText: { color: "#888", fontWeight: "700" },
+  chipTextOn: { color: "white" },
+  resultRow: {
+    flexDirection: "row",
+    alignItems: "baseline",
+    gap: 8,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: 10,
+    backgroundColor: "#222",
+  },
+  resultPressed: { opacity: 0.6 },
+  resultValue: { color: "white", fontSize: 20, fontWeight: "600", flex: 1 },
+  resultUnit: { color: "#f5a623", fontWeight: "800" },
+});
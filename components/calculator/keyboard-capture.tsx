@@ -0,0 +1,50 @@
+import { useFocusEffect } from "expo-router";
+import React, { useCallback, useRef } from "react";
+import { StyleSheet, TextInput } from "react-native";
+
+type Props = {
+  onKey: (key: string) => boolean; // true when the key did something
+  onCopy: () => void;
+  onPaste: (text: string) => void;
+};
+
+// Native has no global key events, so a hardware keyboard types into an
+// invisible input instead. Typed characters arrive one at a time; anything
+// longer came from a paste. Android only reports Backspace from the soft
+// keyboard, and copy is a long-press on the display.
+export function KeyboardCapture({ onKey, onPaste }: Props) {
+  const input = useRef<TextInput>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      const field = input.current;
+      field?.focus();
+      return () => field?.blur();
+    }, []),
+  );
+
+  return (
+    <TextInput
+      ref={input}
+      value=""
+      showSoftInputOnFocus={false}
+      caretHidden
+      autoCorrect={false}
+      autoCapitalize="none"
+      submitBehavior="submit"
+      onChangeText={(text) => {
+        if (text.length === 1) onKey(text);
+        else if (text) onPaste(text);
+      }}
+      onKeyPress={(e) => {
+        if (e.nativeEvent.key === "Backspace") onKey("Backspace");
+      }}
+      onSubmitEditing={() => onKey("Enter")}
+      style={styles.hidden}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  hidden: { position: "absolute", width: 1, height: 1, opacity: 0 },
+});
@@ -0,0 +1,62 @@
+import { useFocusEffect } from "expo-router";
+import { useCallback, useEffect, useRef } from "react";
+
+type Props = {
+  onKey: (key: string) => boolean; // true when the key did something
+  onCopy: () => void;
+  onPaste: (text: string) => void;
+};
+
+// Keys typed into a real text field belong to that field
+function fromTextField(e: Event): boolean {
+  const t = e.target as HTMLElement | null;
+  return (
+    !!t &&
+    (t.tagName === "INPUT" || t.tagName === "TEXTAREA" || t.isContentEditable)
+  );
+}
+
+// Listens on the document while the calculator tab is focused.
+export function KeyboardCapture(props: Props) {
+  const handlers = useRef(props);
+  useEffect(() => {
+    handlers.current = props;
+  });
+
+  useFocusEffect(
+    useCallback(() => {
+      function onKeyDown(e: KeyboardEvent) {
+        if (fromTextField(e) || e.altKey) return;
+        if (e.ctrlKey || e.metaKey) {
+          // Leave a real text selection to the browser
+          if (
+            e.key.toLowerCase() === "c" &&
+            !window.getSelection()?.toString()
+          ) {
+            e.preventDefault();
+            handlers.current.onCopy();
+          }
+          return;
+        }
+        if (handlers.current.onKey(e.key)) e.preventDefault();
+      }
+
+      function onPaste(e: ClipboardEvent) {
+        if (fromTextField(e)) return;
+        const text = e.clipboardData?.getData("text");
+        if (!text) return;
+        e.preventDefault();
+        handlers.current.onPaste(text);
+      }
+
+      document.addEventListener("keydown", onKeyDown);
+      document.addEventListener("paste", onPaste);
+      return () => {
+        document.removeEventListener("keydown", onKeyDown);
+        document.removeEventListener("paste", onPaste);
+      };
+    }, []),
+  );
+
+  return null;
+}
@@ -0,0 +1,106 @@
+import React from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+
+import { MemoryBank, VAR_NAMES, VarName } from "@/lib/calculator/memory";
+import { formatValueText, NumberFormat } from "@/lib/format";
+
+export type MemoryKey = "MC" | "MR" | "M+" | "M−";
+
+const MEMORY_KEYS: MemoryKey[] = ["MC", "MR", "M+", "M−"];
+
+export function MemoryBar({
+  bank,
+  storing,
+  onMemoryKey,
+  onToggleStore,
+  onVar,
+  format,
+  singleRow,
+}: {
+  bank: MemoryBank;
+  storing: boolean; // next A–F tap stores instead of recalls
+  onMemoryKey: (k: MemoryKey) => void;
+  onToggleStore: () => void;
+  onVar: (name: VarName) => void;
+  format: NumberFormat;
+  singleRow?: boolean; // landscape: one strip instead of two
+}) {
+  return (
+    <View style={[styles.bar, singleRow && styles.row]}>
+      <View style={[styles.row, singleRow && styles.half]}>
+        {MEMORY_KEYS.map((k) => (
+          <Pressable
+            key={k}
+            onPress={() => onMemoryKey(k)}
+            disabled={(k === "MC" || k === "MR") && bank.memory === null}
+            style={({ pressed }) => [
+              styles.key,
+              (k === "MC" || k === "MR") &&
+                bank.memory === null &&
+                styles.keyDisabled,
+              pressed && styles.keyPressed,
+            ]}
+          >
+            <Text style={styles.keyText}>{k}</Text>
+          </Pressable>
+        ))}
+        <Pressable
+          onPress={onToggleStore}
+          style={({ pressed }) => [
+            styles.key,
+            storing && styles.keyOn,
+            pressed && styles.keyPressed,
+          ]}
+        >
+          <Text style={styles.keyText}>STO</Text>
+        </Pressable>
+      </View>
+
+      <View style={[styles.row, singleRow && styles.half]}>
+        {VAR_NAMES.map((name) => {
+          const value = bank.vars[name];
+          return (
+            <Pressable
+              key={name}
+              onPress={() => onVar(name)}
+              disabled={!storing && value === undefined}
+              style={({ pressed }) => [
+                styles.key,
+                storing && styles.keyOn,
+                !storing && value === undefined && styles.keyDisabled,
+                pressed && styles.keyPressed,
+              ]}
+            >
+              <Text style={styles.keyText}>{name}</Text>
+              {value !== undefined && (
+                <Text numberOfLines={1} style={styles.varValue}>
+                  {formatValueText(value, format)}
+                </Text>
+              )}
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: { gap: 8 },
+  row: { flexDirection: "row", gap: 8 },
+  half: { flex: 1 },
+  key: {
+    flex: 1,
+    height: 40,
+    borderRadius: 12,
+    backgroundColor: "#1a1a1a",
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 2,
+  },
+  keyOn: { backgroundColor: "#5a3d00" },
+  keyDisabled: { opacity: 0.4 },
+  keyPressed: { opacity: 0.6 },
+  keyText: { color: "white", fontSize: 15, fontWeight: "700" },
+  varValue: { color: "#aaa", fontSize: 10 },
+});
@@ -0,0 +1,146 @@
+import React from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+
+import {
+  bitPattern,
+  formatInteger,
+  IntegerMode,
+  parseInteger,
+  RADIX_LABELS,
+  Radix,
+  RADIXES,
+  WORD_SIZES,
+  WordSize,
+} from "@/lib/calculator/programmer";
+
+const BITS_PER_ROW = 16;
+
+export function ProgrammerPanel({
+  display,
+  int,
+  onModeChange,
+  onFlipBit,
+}: {
+  display: string; // the calculator display, in int.radix
+  int: IntegerMode;
+  onModeChange: (next: IntegerMode) => void;
+  onFlipBit: (bit: number) => void;
+}) {
+  const value = parseInteger(display, int);
+  const pattern = value === null ? null : bitPattern(value, int);
+
+  // Most significant bit first, like the hex/bin readouts
+  const rows: number[][] = [];
+  for (let top = int.bits - 1; top >= 0; top -= BITS_PER_ROW) {
+    const row: number[] = [];
+    for (let b = top; b > top - BITS_PER_ROW && b >= 0; b--) row.push(b);
+    rows.push(row);
+  }
+
+  return (
+    <View style={styles.panel}>
+      <View style={styles.radixes}>
+        {RADIXES.map((radix: Radix) => (
+          <Pressable
+            key={radix}
+            onPress={() => onModeChange({ ...int, radix })}
+            style={[styles.radixRow, int.radix === radix && styles.radixOn]}
+          >
+            <Text style={styles.radixLabel}>{RADIX_LABELS[radix]}</Text>
+            <Text numberOfLines={1} style={styles.radixValue}>
+              {value === null ? "—" : formatInteger(value, { ...int, radix })}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <View style={styles.options}>
+        {WORD_SIZES.map((bits: WordSize) => (
+          <Pressable
+            key={bits}
+            onPress={() => onModeChange({ ...int, bits })}
+            style={[styles.chip, int.bits === bits && styles.chipOn]}
+          >
+            <Text
+              style={[styles.chipText, int.bits === bits && styles.chipTextOn]}
+            >
+              {bits}-bit
+            </Text>
+          </Pressable>
+        ))}
+        <Pressable
+          onPress={() => onModeChange({ ...int, signed: !int.signed })}
+          style={[styles.chip, styles.pushRight, styles.chipOn]}
+        >
+          <Text style={[styles.chipText, styles.chipTextOn]}>
+            {int.signed ? "Signed" : "Unsigned"}
+          </Text>
+        </Pressable>
+      </View>
+
+      <View style={styles.grid}>
+        {rows.map((row) => (
+          <View key={row[0]} style={styles.gridRow}>
+            {row.map((bit) => {
+              const on =
+                pattern !== null && ((pattern >> BigInt(bit)) & 1n) === 1n;
+              return (
+                <Pressable
+                  key={bit}
+                  onPress={() => onFlipBit(bit)}
+                  disabled={pattern === null}
+                  style={[styles.bit, bit % 4 === 0 && styles.bitGroupEnd]}
+                >
+                  <Text style={[styles.bitText, on && styles.bitOn]}>
+                    {on ? "1" : "0"}
+                  </Text>
+                  {bit % 4 === 0 && <Text style={styles.bitIndex}>{bit}</Text>}
+                </Pressable>
+              );
+            })}
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    borderRadius: 16,
+    backgroundColor: "#181818",
+    padding: 10,
+    gap: 8,
+  },
+  radixes: { gap: 2 },
+  radixRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 2,
+    paddingHorizontal: 6,
+    borderRadius: 6,
+  },
+  radixOn: { backgroundColor: "#2a2a2a" },
+  radixLabel: { color: "#f5a623", fontWeight: "800", width: 36 },
+  radixValue: { color: "white", flex: 1, fontVariant: ["tabular-nums"] },
+  options: { flexDirection: "row", gap: 6, flexWrap: "wrap" },
+  pushRight: { marginLeft: "auto" },
+  chip: {
+    borderWidth: 1,
+    borderColor: "#444",
+    borderRadius: 999,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+  },
+  chipOn: { backgroundColor: "#333", borderColor: "#333" },
+  chipText: { color: "#888", fontWeight: "700", fontSize: 12 },
+  chipTextOn: { color: "white" },
+  grid: { gap: 4 },
+  gridRow: { flexDirection: "row" },
+  bit: { flex: 1, alignItems: "center" },
+  bitGroupEnd: { marginRight: 6 },
+  bitText: { color: "#666", fontSize: 14, fontWeight: "700" },
+  bitOn: { color: "white" },
+  bitIndex: { color: "#555", fontSize: 9 },
+});
@@ -0,0 +1,200 @@
+import React from "react";
+import { Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
+
+import { ROUNDING_MODES } from "@/lib/calculator/decimal";
+import {
+  CalcSettings,
+  MAX_PRECISION,
+  MIN_PRECISION,
+} from "@/lib/calculator/settings";
+import {
+  LOCALES,
+  MAX_EXPONENT_THRESHOLD,
+  MAX_FIXED_PLACES,
+  MIN_EXPONENT_THRESHOLD,
+  NOTATIONS,
+  NumberFormatSettings,
+} from "@/lib/format";
+
+function clamp(n: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, n));
+}
+
+export function SettingsPanel({
+  settings,
+  onChange,
+  format,
+  onFormatChange,
+}: {
+  settings: CalcSettings;
+  onChange: (next: CalcSettings) => void;
+  format: NumberFormatSettings;
+  onFormatChange: (next: NumberFormatSettings) => void;
+}) {
+  function step(delta: number) {
+    const precision = clamp(
+      settings.precision + delta,
+      MIN_PRECISION,
+      MAX_PRECISION,
+    );
+    onChange({ ...settings, precision });
+  }
+
+  return (
+    <ScrollView style={styles.panel} contentContainerStyle={styles.content}>
+      <Text style={styles.title}>Division precision</Text>
+      <Stepper value={`${settings.precision} digits`} onStep={step} />
+
+      <Text style={styles.title}>Rounding</Text>
+      <View style={styles.wrap}>
+        {ROUNDING_MODES.map((r) => (
+          <Chip
+            key={r}
+            label={r}
+            on={settings.rounding === r}
+            onPress={() => onChange({ ...settings, rounding: r })}
+          />
+        ))}
+      </View>
+
+      <Text style={styles.title}>Number format</Text>
+      <View style={styles.wrap}>
+        {LOCALES.map((l) => (
+          <Chip
+            key={l}
+            label={l === "auto" ? "Device" : l}
+            on={format.locale === l}
+            onPress={() => onFormatChange({ ...format, locale: l })}
+          />
+        ))}
+        <Chip
+          label="1,000 grouping"
+          on={format.grouping}
+          onPress={() =>
+            onFormatChange({ ...format, grouping: !format.grouping })
+          }
+        />
+      </View>
+
+      <Text style={styles.title}>Notation</Text>
+      <View style={styles.wrap}>
+        {NOTATIONS.map((n) => (
+          <Chip
+            key={n}
+            label={n}
+            on={format.notation === n}
+            onPress={() => onFormatChange({ ...format, notation: n })}
+          />
+        ))}
+      </View>
+      {format.notation === "auto" && (
+        <View style={styles.row}>
+          <Text style={styles.label}>Exponent from</Text>
+          <Stepper
+            value={`10^${format.exponentThreshold}`}
+            onStep={(delta) =>
+              onFormatChange({
+                ...format,
+                exponentThreshold: clamp(
+                  format.exponentThreshold + delta,
+                  MIN_EXPONENT_THRESHOLD,
+                  MAX_EXPONENT_THRESHOLD,
+                ),
+              })
+            }
+          />
+        </View>
+      )}
+
+      <Text style={styles.title}>Decimals shown</Text>
+      <View style={styles.row}>
+        <Chip
+          label="floating"
+          on={format.precision === "floating"}
+          onPress={() => onFormatChange({ ...format, precision: "floating" })}
+        />
+        <Chip
+          label="fixed"
+          on={format.precision === "fixed"}
+          onPress={() => onFormatChange({ ...format, precision: "fixed" })}
+        />
+        {format.precision === "fixed" && (
+          <Stepper
+            value={`${format.places}`}
+            onStep={(delta) =>
+              onFormatChange({
+                ...format,
+                places: clamp(format.places + delta, 0, MAX_FIXED_PLACES),
+              })
+            }
+          />
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+function Chip({
+  label,
+  on,
+  onPress,
+}: {
+  label: string;
+  on: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable onPress={onPress} style={[styles.chip, on && styles.chipOn]}>
+      <Text style={[styles.chipText, on && styles.chipTextOn]}>{label}</Text>
+    </Pressable>
+  );
+}
+
+function Stepper({
+  value,
+  onStep,
+}: {
+  value: string;
+  onStep: (delta: number) => void;
+}) {
+  return (
+    <View style={styles.row}>
+      <Pressable onPress={() => onStep(-1)} style={styles.stepBtn}>
+        <Text style={styles.stepText}>−</Text>
+      </Pressable>
+      <Text style={styles.value}>{value}</Text>
+      <Pressable onPress={() => onStep(1)} style={styles.stepBtn}>
+        <Text style={styles.stepText}>+</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: { maxHeight: 320, borderRadius: 16, backgroundColor: "#181818" },
+  content: { padding: 12, gap: 8 },
+  title: { color: "#aaa", fontWeight: "800" },
+  row: { flexDirection: "row", alignItems: "center", gap: 12 },
+  stepBtn: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: "#2a2a2a",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  stepText: { color: "white", fontSize: 20, fontWeight: "700" },
+  value: { color: "white", fontSize: 16, fontWeight: "600" },
+  label: { color: "#888", fontWeight: "700" },
+  wrap: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+  chip: {
+    borderWidth: 1,
+    borderColor: "#444",
+    borderRadius: 999,
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+  },
+  chipOn: { backgroundColor: "#333", borderColor: "#333" },
+  chipText: { color: "#888", fontWeight: "700" },
+  chipTextOn: { color: "white" },
+});
@@ -0,0 +1,97 @@
+import React, { useMemo, useState } from "react";
+import { Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+
+import { Collapsible } from "@/components/ui/collapsible";
+import { groupRecordFields } from "@/lib/vin/field-groups";
+import { isSummaryField, VpicRecord } from "@/lib/vin/fields";
+
+export function AllFieldsPanel({
+  record,
+  pinned,
+  onTogglePin,
+}: {
+  record: VpicRecord;
+  pinned: string[];
+  onTogglePin: (key: string) => void;
+}) {
+  const [query, setQuery] = useState("");
+  const groups = useMemo(
+    () => groupRecordFields(record, query),
+    [record, query],
+  );
+  const searching = query.trim().length > 0;
+
+  return (
+    <View style={styles.panel}>
+      <TextInput
+        value={query}
+        onChangeText={setQuery}
+        autoCorrect={false}
+        autoCapitalize="none"
+        placeholder="Search fields (e.g. airbag, GVWR)"
+        style={styles.search}
+      />
+      {groups.map((g) => (
+        // Remounting on search opens every section that has a match
+        <Collapsible
+          key={`${g.title}:${searching}`}
+          title={`${g.title} (${g.fields.length})`}
+          defaultOpen={searching}
+        >
+          {g.fields.map((f) => {
+            const isPinned = pinned.includes(f.key);
+            return (
+              <View key={f.key} style={styles.row}>
+                <View style={styles.text}>
+                  <Text style={styles.label}>{f.label}</Text>
+                  <Text style={styles.value}>{f.value}</Text>
+                </View>
+                {!isSummaryField(f.key) && (
+                  <Pressable
+                    onPress={() => onTogglePin(f.key)}
+                    hitSlop={8}
+                    accessibilityLabel={
+                      isPinned ? `Unpin ${f.label}` : `Pin ${f.label}`
+                    }
+                  >
+                    <Text style={[styles.pin, isPinned && styles.pinOn]}>
+                      {isPinned ? "★" : "☆"}
+                    </Text>
+                  </Pressable>
+                )}
+              </View>
+            );
+          })}
+        </Collapsible>
+      ))}
+      {!groups.length && (
+        <Text style={styles.empty}>No fields match “{query}”.</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: { gap: 12 },
+  search: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderColor: "#eee",
+  },
+  text: { flex: 1, gap: 2 },
+  label: { fontSize: 12, opacity: 0.6, fontWeight: "700" },
+  value: { fontSize: 15, fontWeight: "600" },
+  pin: { fontSize: 20, opacity: 0.4 },
+  pinOn: { opacity: 1, color: "#9a6700" },
+  empty: { opacity: 0.6 },
+});
@@ -0,0 +1,303 @@
+import * as DocumentPicker from "expo-document-picker";
+import { File } from "expo-file-system";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { Fonts } from "@/constants/theme";
+import {
+  applyBatchResults,
+  BATCH_CHUNK,
+  BatchRow,
+  BatchSortKey,
+  chunk,
+  filterBatchRows,
+  makeBatchRows,
+  parseVinCsv,
+  parseVinList,
+  sortBatchRows,
+} from "@/lib/vin/batch";
+import { VpicRecord } from "@/lib/vin/fields";
+import { VinDecoderProvider } from "@/lib/vin/provider";
+
+const COLUMNS: { key: BatchSortKey; label: string }[] = [
+  { key: "vin", label: "VIN" },
+  { key: "make", label: "Make" },
+  { key: "year", label: "Year" },
+  { key: "body", label: "Body" },
+];
+
+export function BatchPanel({ provider }: { provider: VinDecoderProvider }) {
+  const [text, setText] = useState("");
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [running, setRunning] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [sortKey, setSortKey] = useState<BatchSortKey>("vin");
+  const [ascending, setAscending] = useState(true);
+  const [query, setQuery] = useState("");
+  // The run in progress; a new run, Clear or leaving the panel cancels its
+  // chunk in flight
+  const inflight = useRef<AbortController | null>(null);
+
+  useEffect(() => () => inflight.current?.abort(), []);
+
+  const parsedCount = useMemo(() => parseVinList(text).length, [text]);
+  const valid = rows.filter((r) => r.status !== "invalid");
+  const done = valid.filter((r) => r.status !== "pending").length;
+  const failed = rows.filter((r) => r.status === "failed").length;
+  const partial = rows.filter((r) => r.status === "partial").length;
+  const invalid = rows.length - valid.length;
+
+  const shown = useMemo(
+    () => sortBatchRows(filterBatchRows(rows, query), sortKey, ascending),
+    [rows, query, sortKey, ascending],
+  );
+
+  async function run(start: BatchRow[]) {
+    inflight.current?.abort();
+    const controller = new AbortController();
+    inflight.current = controller;
+    const { signal } = controller;
+    let current = start;
+    setRows(current);
+    setRunning(true);
+    const pending = current
+      .filter((r) => r.status === "pending")
+      .map((r) => r.vin);
+
+    // One chunk at a time keeps us polite to vPIC and the progress honest
+    for (const vins of chunk(pending, BATCH_CHUNK)) {
+      let outcome: VpicRecord[] | Error;
+      try {
+        outcome = await provider.decodeBatch(vins, signal);
+      } catch (e: any) {
+        outcome = new Error(e?.message ?? "Batch lookup failed.");
+      }
+      if (signal.aborted) return;
+      current = applyBatchResults(current, vins, outcome);
+      setRows(current);
+    }
+    setRunning(false);
+  }
+
+  function onDecode() {
+    const next = makeBatchRows(parseVinList(text));
+    if (next.length) run(next);
+  }
+
+  function onRetryFailed() {
+    run(
+      rows.map((r) =>
+        r.status === "failed" ? { ...r, status: "pending", error: null } : r,
+      ),
+    );
+  }
+
+  function onClear() {
+    inflight.current?.abort();
+    inflight.current = null;
+    setRows([]);
+    setRunning(false);
+  }
+
+  async function onImport() {
+    setImportError(null);
+    try {
+      const res = await DocumentPicker.getDocumentAsync({
+        type: ["text/csv", "text/comma-separated-values", "text/plain"],
+        copyToCacheDirectory: true,
+      });
+      if (res.canceled) return;
+      const asset = res.assets[0];
+      // On web the picker hands back a browser File instead of a path
+      const content = asset.file
+        ? await asset.file.text()
+        : await new File(asset.uri).text();
+      const vins = parseVinCsv(content);
+      if (!vins.length) {
+        setImportError(`No VINs found in ${asset.name}.`);
+        return;
+      }
+      setText(vins.join("\n"));
+    } catch (e: any) {
+      setImportError(e?.message ?? "Couldn’t read that file.");
+    }
+  }
+
+  function onSort(key: BatchSortKey) {
+    if (key === sortKey) setAscending((a) => !a);
+    else {
+      setSortKey(key);
+      setAscending(true);
+    }
+  }
+
+  return (
+    <View style={styles.panel}>
+      <TextInput
+        value={text}
+        onChangeText={setText}
+        multiline
+        autoCapitalize="characters"
+        autoCorrect={false}
+        placeholder="Paste VINs, one per line or separated by commas or spaces"
+        style={styles.input}
+      />
+      <View style={styles.row}>
+        <Pressable onPress={onImport} style={styles.secondaryBtn}>
+          <Text style={styles.secondaryText}>Import CSV</Text>
+        </Pressable>
+        <Text style={styles.meta}>
+          {parsedCount ? `${parsedCount} entries` : ""}
+        </Text>
+        <Pressable
+          onPress={onDecode}
+          disabled={running || !parsedCount}
+          style={[
+            styles.button,
+            (running || !parsedCount) && styles.buttonDisabled,
+          ]}
+        >
+          <Text style={styles.buttonText}>Decode all</Text>
+        </Pressable>
+      </View>
+      {importError && <Text style={styles.error}>{importError}</Text>}
+
+      {rows.length > 0 && (
+        <>
+          <View style={styles.row}>
+            {running && <ActivityIndicator />}
+            <Text style={styles.progress}>
+              Decoded {done} / {valid.length}
+              {partial ? ` · ${partial} with warnings` : ""}
+              {failed ? ` · ${failed} failed` : ""}
+              {invalid ? ` · ${invalid} invalid` : ""}
+            </Text>
+            {failed > 0 && !running && (
+              <Pressable onPress={onRetryFailed} style={styles.secondaryBtn}>
+                <Text style={styles.secondaryText}>Retry failed</Text>
+              </Pressable>
+            )}
+            <Pressable onPress={onClear}>
+              <Text style={styles.clear}>Clear</Text>
+            </Pressable>
+          </View>
+
+          <TextInput
+            value={query}
+            onChangeText={setQuery}
+            autoCorrect={false}
+            placeholder="Filter by make, year or body class"
+            style={styles.filter}
+          />
+
+          <View style={[styles.tableRow, styles.tableHead]}>
+            {COLUMNS.map((c) => (
+              <Pressable
+                key={c.key}
+                onPress={() => onSort(c.key)}
+                style={c.key === "vin" ? styles.vinCell : styles.cell}
+              >
+                <Text style={styles.headText}>
+                  {c.label}
+                  {sortKey === c.key ? (ascending ? " ▲" : " ▼") : ""}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          <ScrollView contentContainerStyle={styles.table}>
+            {shown.map((r) => (
+              <View key={r.id} style={styles.tableItem}>
+                <View style={styles.tableRow}>
+                  <Text style={[styles.vinCell, styles.vinText]}>
+                    {r.vin || r.input}
+                  </Text>
+                  <Text style={styles.cell}>
+                    {r.status === "pending" ? "…" : (r.record?.Make ?? "")}
+                  </Text>
+                  <Text style={styles.cell}>{r.record?.ModelYear ?? ""}</Text>
+                  <Text style={styles.cell} numberOfLines={2}>
+                    {r.record?.BodyClass ?? ""}
+                  </Text>
+                </View>
+                {r.error && <Text style={styles.error}>{r.error}</Text>}
+                {r.note && <Text style={styles.note}>{r.note}</Text>}
+              </View>
+            ))}
+            {!shown.length && (
+              <Text style={styles.meta}>No rows match “{query}”.</Text>
+            )}
+          </ScrollView>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: { flex: 1, gap: 10 },
+  input: {
+    borderWidth: 1,
+    borderColor: "#ccc",
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    minHeight: 90,
+    maxHeight: 160,
+    textAlignVertical: "top",
+  },
+  row: { flexDirection: "row", alignItems: "center", gap: 10 },
+  meta: { flex: 1, opacity: 0.6 },
+  button: {
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: "#111",
+  },
+  buttonDisabled: { opacity: 0.45 },
+  buttonText: { color: "white", fontWeight: "700" },
+  secondaryBtn: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#ddd",
+  },
+  secondaryText: { fontWeight: "700" },
+  progress: { flex: 1, fontWeight: "700" },
+  clear: { color: "#b00020", fontWeight: "700" },
+  filter: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  table: { paddingBottom: 12 },
+  tableHead: {
+    borderBottomWidth: 1,
+    borderColor: "#ccc",
+    paddingBottom: 6,
+  },
+  tableItem: {
+    borderBottomWidth: 1,
+    borderColor: "#eee",
+    paddingVertical: 8,
+    gap: 4,
+  },
+  tableRow: { flexDirection: "row", gap: 8 },
+  headText: { fontWeight: "800", opacity: 0.7 },
+  vinCell: { flex: 2.2 },
+  vinText: { fontFamily: Fonts?.mono, fontSize: 12 },
+  cell: { flex: 1 },
+  error: { color: "#b00020", fontWeight: "600" },
+  note: { color: "#9a6700" },
+});
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+
+import {
+  CacheSettings,
+  cachedVinCount,
+  clearDecodeCache,
+  SIZE_CHOICES,
+  TTL_CHOICES,
+} from "@/lib/vin/cache";
+
+export function CacheSettingsPanel({
+  settings,
+  onChange,
+}: {
+  settings: CacheSettings;
+  onChange: (next: CacheSettings) => void;
+}) {
+  const [count, setCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    (async () => setCount(await cachedVinCount()))();
+  }, [settings]);
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.title}>Refresh cached decodes after</Text>
+      <View style={styles.wrap}>
+        {TTL_CHOICES.map((days) => (
+          <Pressable
+            key={days}
+            onPress={() => onChange({ ...settings, ttlDays: days })}
+            style={[styles.chip, settings.ttlDays === days && styles.chipOn]}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                settings.ttlDays === days && styles.chipTextOn,
+              ]}
+            >
+              {days === 1 ? "1 day" : `${days} days`}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <Text style={styles.title}>Keep at most</Text>
+      <View style={styles.wrap}>
+        {SIZE_CHOICES.map((n) => (
+          <Pressable
+            key={n}
+            onPress={() => onChange({ ...settings, maxEntries: n })}
+            style={[styles.chip, settings.maxEntries === n && styles.chipOn]}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                settings.maxEntries === n && styles.chipTextOn,
+              ]}
+            >
+              {n} VINs
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <View style={styles.footer}>
+        <Text style={styles.count}>
+          {count === null ? "" : `${count} cached`}
+        </Text>
+        <Pressable
+          onPress={async () => {
+            await clearDecodeCache();
+            setCount(0);
+          }}
+          disabled={!count}
+        >
+          <Text style={[styles.clear, !count && styles.clearDisabled]}>
+            Clear cache
+          </Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    borderWidth: 1,
+    borderColor: "#e6e6e6",
+    borderRadius: 14,
+    padding: 12,
+    gap: 8,
+  },
+  title: { fontWeight: "700", opacity: 0.7 },
+  wrap: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+  chip: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 999,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+  chipOn: { backgroundColor: "#111", borderColor: "#111" },
+  chipText: { fontWeight: "700" },
+  chipTextOn: { color: "white" },
+  footer: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  count: { opacity: 0.6 },
+  clear: { color: "#b00020", fontWeight: "700" },
+  clearDisabled: { opacity: 0.4 },
+});
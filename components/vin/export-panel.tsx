@@ -0,0 +1,187 @@
+import React, { useState } from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+
+import { NumberFormat } from "@/lib/format";
+import { exportPdf, exportTextFile } from "@/lib/vin/export-file";
+import {
+  CSV_COLUMNS,
+  DEFAULT_CSV_COLUMNS,
+  loadReportEntries,
+  ReportEntry,
+  reportCsv,
+  reportFileName,
+  ReportFormat,
+  reportHtml,
+  reportJson,
+} from "@/lib/vin/report";
+
+const FORMATS: { id: ReportFormat; label: string }[] = [
+  { id: "json", label: "JSON" },
+  { id: "csv", label: "CSV" },
+  { id: "pdf", label: "PDF" },
+];
+
+function Chip({
+  label,
+  on,
+  onPress,
+}: {
+  label: string;
+  on: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable onPress={onPress} style={[styles.chip, on && styles.chipOn]}>
+      <Text style={[styles.chipText, on && styles.chipTextOn]}>{label}</Text>
+    </Pressable>
+  );
+}
+
+export function ExportPanel({
+  current,
+  history,
+  format,
+}: {
+  current: ReportEntry | null;
+  history: string[];
+  format: NumberFormat;
+}) {
+  const [scope, setScope] = useState<"current" | "history">(
+    current ? "current" : "history",
+  );
+  const [kind, setKind] = useState<ReportFormat>("pdf");
+  const [columns, setColumns] = useState<string[]>(DEFAULT_CSV_COLUMNS);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canExport =
+    !busy &&
+    (scope === "current" ? !!current : history.length > 0) &&
+    (kind !== "csv" || columns.length > 0);
+
+  function toggleColumn(key: string) {
+    setColumns((cols) =>
+      cols.includes(key) ? cols.filter((c) => c !== key) : [...cols, key],
+    );
+  }
+
+  async function onExport() {
+    setBusy(true);
+    setError(null);
+    try {
+      const entries =
+        scope === "current" && current
+          ? [current]
+          : await loadReportEntries(history);
+      if (kind === "json") {
+        await exportTextFile(
+          reportFileName(entries, "json"),
+          reportJson(entries),
+          "application/json",
+        );
+      } else if (kind === "csv") {
+        await exportTextFile(
+          reportFileName(entries, "csv"),
+          reportCsv(entries, columns),
+          "text/csv",
+        );
+      } else {
+        await exportPdf(
+          reportFileName(entries, "pdf"),
+          reportHtml(entries, format),
+        );
+      }
+    } catch (e: any) {
+      setError(e?.message ?? "Export failed.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.title}>Export</Text>
+      <View style={styles.wrap}>
+        <Chip
+          label={current ? current.vin : "This VIN"}
+          on={scope === "current"}
+          onPress={() => setScope("current")}
+        />
+        <Chip
+          label={`History (${history.length})`}
+          on={scope === "history"}
+          onPress={() => setScope("history")}
+        />
+      </View>
+
+      <Text style={styles.title}>Format</Text>
+      <View style={styles.wrap}>
+        {FORMATS.map((f) => (
+          <Chip
+            key={f.id}
+            label={f.label}
+            on={kind === f.id}
+            onPress={() => setKind(f.id)}
+          />
+        ))}
+      </View>
+
+      {kind === "csv" && (
+        <>
+          <Text style={styles.title}>Columns</Text>
+          <View style={styles.wrap}>
+            {CSV_COLUMNS.map((c) => (
+              <Chip
+                key={c.key}
+                label={c.label}
+                on={columns.includes(c.key)}
+                onPress={() => toggleColumn(c.key)}
+              />
+            ))}
+          </View>
+        </>
+      )}
+
+      {error && <Text style={styles.error}>{error}</Text>}
+      <Pressable
+        onPress={onExport}
+        disabled={!canExport}
+        style={[styles.button, !canExport && styles.buttonDisabled]}
+      >
+        <Text style={styles.buttonText}>{busy ? "…" : "Export"}</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    borderWidth: 1,
+    borderColor: "#e6e6e6",
+    borderRadius: 14,
+    padding: 12,
+    gap: 8,
+  },
+  title: { fontWeight: "700", opacity: 0.7 },
+  wrap: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+  chip: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 999,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+  chipOn: { backgroundColor: "#111", borderColor: "#111" },
+  chipText: { fontWeight: "700" },
+  chipTextOn: { color: "white" },
+  error: { color: "#b00020", fontWeight: "600" },
+  button: {
+    alignSelf: "flex-start",
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: "#111",
+  },
+  buttonDisabled: { opacity: 0.45 },
+  buttonText: { color: "white", fontWeight: "700" },
+});
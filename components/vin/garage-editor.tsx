@@ -0,0 +1,174 @@
+import { Image } from "expo-image";
+import React, { useState } from "react";
+import { Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+
+import { GarageVehicle, parseTags } from "@/lib/vin/garage";
+
+// Nickname, mileage, tags and notes for a saved vehicle. The decode and
+// photo come from the caller and aren't editable here.
+export function GarageEditor({
+  vehicle,
+  isNew,
+  onSave,
+  onCancel,
+  onDelete,
+}: {
+  vehicle: GarageVehicle;
+  isNew: boolean;
+  onSave: (next: GarageVehicle) => void;
+  onCancel: () => void;
+  onDelete?: () => void;
+}) {
+  const [nickname, setNickname] = useState(vehicle.nickname);
+  const [mileage, setMileage] = useState(
+    vehicle.mileage === null ? "" : String(vehicle.mileage),
+  );
+  const [tags, setTags] = useState(vehicle.tags.join(", "));
+  const [notes, setNotes] = useState(vehicle.notes);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const parsedTags = parseTags(tags);
+
+  function save() {
+    const digits = mileage.replace(/\D/g, "");
+    onSave({
+      ...vehicle,
+      nickname: nickname.trim(),
+      mileage: digits ? Number(digits) : null,
+      tags: parsedTags,
+      notes: notes.trim(),
+    });
+  }
+
+  return (
+    <View style={styles.panel}>
+      <View style={styles.headRow}>
+        {vehicle.photoUri && (
+          <Image source={{ uri: vehicle.photoUri }} style={styles.photo} />
+        )}
+        <View style={styles.headText}>
+          <Text style={styles.title}>
+            {isNew ? "Save to Garage" : "Edit vehicle"}
+          </Text>
+          <Text style={styles.vin}>{vehicle.vin}</Text>
+        </View>
+      </View>
+
+      <Text style={styles.label}>Nickname</Text>
+      <TextInput
+        value={nickname}
+        onChangeText={setNickname}
+        placeholder="e.g. Dad’s Accord"
+        style={styles.input}
+      />
+
+      <Text style={styles.label}>Mileage</Text>
+      <TextInput
+        value={mileage}
+        onChangeText={setMileage}
+        keyboardType="number-pad"
+        placeholder="Odometer reading"
+        style={styles.input}
+      />
+
+      <Text style={styles.label}>Tags (comma separated)</Text>
+      <TextInput
+        value={tags}
+        onChangeText={setTags}
+        autoCapitalize="none"
+        placeholder="customer, fleet, auction lot 42"
+        style={styles.input}
+      />
+      {parsedTags.length > 0 && (
+        <View style={styles.tags}>
+          {parsedTags.map((t) => (
+            <View key={t} style={styles.tag}>
+              <Text style={styles.tagText}>{t}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <Text style={styles.label}>Notes</Text>
+      <TextInput
+        value={notes}
+        onChangeText={setNotes}
+        multiline
+        placeholder="Condition, history, who it belongs to…"
+        style={[styles.input, styles.notes]}
+      />
+
+      <View style={styles.actions}>
+        <Pressable onPress={save} style={styles.button}>
+          <Text style={styles.buttonText}>Save</Text>
+        </Pressable>
+        <Pressable onPress={onCancel} style={styles.secondaryBtn}>
+          <Text style={styles.secondaryText}>Cancel</Text>
+        </Pressable>
+        <View style={styles.spacer} />
+        {onDelete && (
+          <Pressable
+            onPress={() =>
+              confirmDelete ? onDelete() : setConfirmDelete(true)
+            }
+          >
+            <Text style={styles.delete}>
+              {confirmDelete ? "Tap again to remove" : "Remove"}
+            </Text>
+          </Pressable>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    borderWidth: 1,
+    borderColor: "#e6e6e6",
+    borderRadius: 14,
+    padding: 12,
+    gap: 8,
+  },
+  headRow: { flexDirection: "row", alignItems: "center", gap: 10 },
+  headText: { flex: 1, gap: 2 },
+  photo: { width: 56, height: 56, borderRadius: 10 },
+  title: { fontSize: 16, fontWeight: "800" },
+  vin: { opacity: 0.6, fontWeight: "600" },
+  label: { fontWeight: "700", opacity: 0.7 },
+  input: {
+    borderWidth: 1,
+    borderColor: "#ccc",
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+  },
+  notes: { minHeight: 70, textAlignVertical: "top" },
+  tags: { flexDirection: "row", flexWrap: "wrap", gap: 6 },
+  tag: {
+    borderRadius: 999,
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+    backgroundColor: "#eef2ff",
+  },
+  tagText: { fontSize: 12, fontWeight: "700", color: "#3730a3" },
+  actions: { flexDirection: "row", alignItems: "center", gap: 10 },
+  spacer: { flex: 1 },
+  button: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: "#111",
+  },
+  buttonText: { color: "white", fontWeight: "700" },
+  secondaryBtn: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#ddd",
+  },
+  secondaryText: { fontWeight: "700" },
+  delete: { color: "#b00020", fontWeight: "700" },
+});
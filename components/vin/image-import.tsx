@@ -0,0 +1,386 @@
+import { Image } from "expo-image";
+import React, { useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  LayoutChangeEvent,
+  PanResponder,
+  PanResponderInstance,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+import { VinCandidates } from "@/components/vin/vin-candidates";
+import {
+  containRect,
+  Crop,
+  CropHandle,
+  cropImage,
+  dragCrop,
+  FULL_CROP,
+  ImportedImage,
+  pickImageFile,
+  pickLibraryImage,
+  readVinCandidates,
+  rotateImage,
+} from "@/lib/vin/image-import";
+import { Size } from "@/lib/vin/live-scan";
+import { VinCandidate } from "@/lib/vin/ocr";
+import { lookupWmi } from "@/lib/vin/wmi";
+
+const CORNERS: Exclude<CropHandle, "move">[] = ["tl", "tr", "bl", "br"];
+
+// Reads a VIN from a photo someone sent us: pick it, crop to the VIN and
+// straighten it, then confirm what OCR found next to the region it read.
+export function ImageImport({
+  onResult,
+  onClose,
+}: {
+  // The VIN the user confirmed, and the cropped region it came from
+  onResult: (vin: string, photoUri: string) => void;
+  onClose: () => void;
+}) {
+  const [image, setImage] = useState<ImportedImage | null>(null);
+  const [crop, setCrop] = useState<Crop>(FULL_CROP);
+  const [area, setArea] = useState<Size | null>(null);
+  const [found, setFound] = useState<{
+    region: ImportedImage;
+    candidates: VinCandidate[];
+  } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The pan handlers are made once, so they read these rather than state
+  const imageRef = useRef<ImportedImage | null>(null);
+  const areaRef = useRef<Size | null>(null);
+  const cropRef = useRef<Crop>(FULL_CROP);
+  const dragStart = useRef<Crop>(FULL_CROP);
+
+  function updateCrop(next: Crop) {
+    cropRef.current = next;
+    setCrop(next);
+  }
+
+  function showImage(next: ImportedImage) {
+    imageRef.current = next;
+    setImage(next);
+    updateCrop(FULL_CROP);
+    setFound(null);
+  }
+
+  const [responders] = useState(() => {
+    const make = (handle: CropHandle): PanResponderInstance =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onPanResponderGrant: () => {
+          dragStart.current = cropRef.current;
+        },
+        onPanResponderMove: (_, g) => {
+          if (!imageRef.current || !areaRef.current) return;
+          const shown = containRect(imageRef.current, areaRef.current);
+          updateCrop(
+            dragCrop(
+              dragStart.current,
+              handle,
+              g.dx / shown.width,
+              g.dy / shown.height,
+            ),
+          );
+        },
+      });
+    return {
+      move: make("move"),
+      tl: make("tl"),
+      tr: make("tr"),
+      bl: make("bl"),
+      br: make("br"),
+    };
+  });
+
+  async function run(task: () => Promise<void>, failure: string) {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch {
+      setError(failure);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function pick(from: () => Promise<ImportedImage | null>) {
+    run(async () => {
+      const picked = await from();
+      if (picked) showImage(picked);
+    }, "Couldn’t open that image.");
+  }
+
+  function rotate(degrees: 90 | -90) {
+    if (!image) return;
+    run(
+      async () => showImage(await rotateImage(image, degrees)),
+      "Couldn’t rotate the image.",
+    );
+  }
+
+  function read() {
+    if (!image) return;
+    run(async () => {
+      const region = await cropImage(image, crop);
+      setFound({ region, candidates: await readVinCandidates(region.uri) });
+    }, "Text recognition failed on this image.");
+  }
+
+  function onLayout(e: LayoutChangeEvent) {
+    const { width, height } = e.nativeEvent.layout;
+    areaRef.current = { width, height };
+    setArea({ width, height });
+  }
+
+  const shown = image && area && containRect(image, area);
+  const box = shown && {
+    left: shown.left + crop.left * shown.width,
+    top: shown.top + crop.top * shown.height,
+    width: crop.width * shown.width,
+    height: crop.height * shown.height,
+  };
+
+  return (
+    <View style={styles.panel}>
+      <View style={styles.headRow}>
+        <Text style={styles.title}>Read a VIN from an image</Text>
+        <Pressable onPress={onClose} hitSlop={8}>
+          <Text style={styles.dismiss}>Close</Text>
+        </Pressable>
+      </View>
+
+      {!image && (
+        <>
+          <Text style={styles.hint}>
+            A photo of a registration, title or VIN plate, or a screenshot.
+          </Text>
+          <View style={styles.actions}>
+            <Pressable
+              onPress={() => pick(pickLibraryImage)}
+              disabled={busy}
+              style={styles.button}
+            >
+              <Text style={styles.buttonText}>Photo library</Text>
+            </Pressable>
+            <Pressable
+              onPress={() => pick(pickImageFile)}
+              disabled={busy}
+              style={styles.secondaryBtn}
+            >
+              <Text style={styles.secondaryText}>Files</Text>
+            </Pressable>
+          </View>
+        </>
+      )}
+
+      {image && !found && (
+        <>
+          <Text style={styles.hint}>
+            Drag the box or its corners around the VIN, and rotate until the
+            text reads left to right.
+          </Text>
+          <View style={styles.cropArea} onLayout={onLayout}>
+            <Image
+              source={{ uri: image.uri }}
+              style={StyleSheet.absoluteFill}
+              contentFit="contain"
+            />
+            {box && (
+              <View
+                style={[styles.cropBox, box]}
+                {...responders.move.panHandlers}
+              >
+                {CORNERS.map((c) => (
+                  <View
+                    key={c}
+                    style={[styles.handle, styles[c]]}
+                    {...responders[c].panHandlers}
+                  />
+                ))}
+              </View>
+            )}
+          </View>
+          <View style={styles.actions}>
+            <Pressable
+              onPress={read}
+              disabled={busy}
+              style={[styles.button, busy && styles.disabled]}
+            >
+              <Text style={styles.buttonText}>Read VIN</Text>
+            </Pressable>
+            <Pressable
+              onPress={() => rotate(-90)}
+              disabled={busy}
+              style={styles.secondaryBtn}
+            >
+              <Text style={styles.secondaryText}>⟲</Text>
+            </Pressable>
+            <Pressable
+              onPress={() => rotate(90)}
+              disabled={busy}
+              style={styles.secondaryBtn}
+            >
+              <Text style={styles.secondaryText}>⟳</Text>
+            </Pressable>
+            <View style={styles.spacer} />
+            <Pressable onPress={() => updateCrop(FULL_CROP)} hitSlop={8}>
+              <Text style={styles.dismiss}>Reset</Text>
+            </Pressable>
+            <Pressable
+              onPress={() => {
+                imageRef.current = null;
+                setImage(null);
+              }}
+              hitSlop={8}
+            >
+              <Text style={styles.dismiss}>Other image</Text>
+            </Pressable>
+          </View>
+        </>
+      )}
+
+      {found && (
+        <>
+          <Image
+            source={{ uri: found.region.uri }}
+            style={styles.region}
+            contentFit="contain"
+          />
+          {found.candidates.length === 0 && (
+            <Text style={styles.hint}>
+              No VIN found in this area. Try a tighter crop, or rotate the image
+              so the text is upright.
+            </Text>
+          )}
+          {found.candidates.length === 1 && (
+            <View style={styles.match}>
+              <Text style={styles.vin}>{found.candidates[0].vin}</Text>
+              <Text style={styles.meta}>
+                {[
+                  found.candidates[0].checkDigitOk
+                    ? "Check digit ✓"
+                    : "Check digit ✗",
+                  lookupWmi(found.candidates[0].vin)?.make,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </Text>
+            </View>
+          )}
+          {found.candidates.length > 1 && (
+            <VinCandidates
+              candidates={found.candidates}
+              onPick={(vin) => onResult(vin, found.region.uri)}
+              onDismiss={() => setFound(null)}
+            />
+          )}
+          <View style={styles.actions}>
+            {found.candidates.length === 1 && (
+              <Pressable
+                onPress={() =>
+                  onResult(found.candidates[0].vin, found.region.uri)
+                }
+                style={styles.button}
+              >
+                <Text style={styles.buttonText}>Use this VIN</Text>
+              </Pressable>
+            )}
+            <Pressable
+              onPress={() => setFound(null)}
+              style={styles.secondaryBtn}
+            >
+              <Text style={styles.secondaryText}>Adjust crop</Text>
+            </Pressable>
+          </View>
+        </>
+      )}
+
+      {busy && <ActivityIndicator />}
+      {error && <Text style={styles.error}>{error}</Text>}
+    </View>
+  );
+}
+
+const HANDLE = 22;
+
+const styles = StyleSheet.create({
+  panel: {
+    borderWidth: 1,
+    borderColor: "#e6e6e6",
+    borderRadius: 14,
+    padding: 12,
+    gap: 8,
+  },
+  headRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  title: { fontWeight: "800" },
+  dismiss: { fontWeight: "700", opacity: 0.6 },
+  hint: { opacity: 0.7 },
+  cropArea: {
+    height: 260,
+    borderRadius: 10,
+    overflow: "hidden",
+    backgroundColor: "#111",
+  },
+  cropBox: {
+    position: "absolute",
+    borderWidth: 2,
+    borderColor: "#ffd54f",
+    backgroundColor: "rgba(255,213,79,0.12)",
+  },
+  handle: {
+    position: "absolute",
+    width: HANDLE,
+    height: HANDLE,
+    borderRadius: HANDLE / 2,
+    backgroundColor: "#ffd54f",
+  },
+  tl: { left: -HANDLE / 2, top: -HANDLE / 2 },
+  tr: { right: -HANDLE / 2, top: -HANDLE / 2 },
+  bl: { left: -HANDLE / 2, bottom: -HANDLE / 2 },
+  br: { right: -HANDLE / 2, bottom: -HANDLE / 2 },
+  region: {
+    height: 90,
+    borderRadius: 10,
+    backgroundColor: "#f4f4f4",
+  },
+  match: {
+    borderWidth: 1,
+    borderColor: "#e6e6e6",
+    borderRadius: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    gap: 2,
+  },
+  vin: { fontSize: 16, fontWeight: "700", letterSpacing: 0.5 },
+  meta: { fontSize: 12, opacity: 0.7, fontWeight: "600" },
+  actions: { flexDirection: "row", alignItems: "center", gap: 10 },
+  spacer: { flex: 1 },
+  button: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: "#111",
+  },
+  buttonText: { color: "white", fontWeight: "700" },
+  secondaryBtn: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#ddd",
+  },
+  secondaryText: { fontWeight: "700" },
+  disabled: { opacity: 0.45 },
+  error: { color: "#b00020", fontWeight: "600" },
+});
@@ -0,0 +1,441 @@
+import TextRecognition from "@react-native-ml-kit/text-recognition";
+import { BarcodeScanningResult, CameraView } from "expo-camera";
+import { File } from "expo-file-system";
+import React, { useEffect, useRef, useState } from "react";
+import {
+  LayoutChangeEvent,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+import { barcodeCandidate, VIN_BARCODE_TYPES } from "@/lib/vin/barcode";
+import {
+  AUTO_OCR_DELAY_MS,
+  centerInside,
+  guideRect,
+  initialScanLock,
+  isLocked,
+  loadScanSource,
+  LOCK_FRAMES,
+  nextScanLock,
+  photoRectToView,
+  Rect,
+  SCAN_SOURCES,
+  saveScanSource,
+  ScanLock,
+  ScanSource,
+  Size,
+} from "@/lib/vin/live-scan";
+import {
+  plausibleCandidates,
+  rankVinCandidates,
+  VinCandidate,
+} from "@/lib/vin/ocr";
+
+// Pause between frames; OCR itself takes a few hundred ms on a phone.
+const FRAME_INTERVAL_MS = 250;
+
+type TextBox = { key: string; rect: Rect; isVin: boolean };
+
+function deleteFrame(uri: string) {
+  try {
+    new File(uri).delete();
+  } catch {
+    // already gone
+  }
+}
+
+// expo-camera has no frame processor, so "continuous" here means small,
+// silent stills taken back to back and run through ML Kit. Each frame's
+// best VIN inside the guide feeds the lock; once it holds for LOCK_FRAMES
+// frames we hand it over with the photo it came from. Barcodes come from
+// the camera's own scanner and are taken on the first valid read.
+export function LiveScanner({
+  onResult,
+  onCancel,
+}: {
+  // One candidate when locked; several when the user captured early and
+  // the frame was ambiguous. Barcode reads have no photo.
+  onResult: (candidates: VinCandidate[], photoUri: string | null) => void;
+  onCancel: () => void;
+}) {
+  const cameraRef = useRef<CameraView>(null);
+  const [ready, setReady] = useState(false);
+  const [view, setView] = useState<Size | null>(null);
+  const [torch, setTorch] = useState(false);
+  const [autofocus, setAutofocus] = useState<"on" | "off">("on");
+  const [focusAt, setFocusAt] = useState<{ x: number; y: number } | null>(null);
+  const [boxes, setBoxes] = useState<TextBox[]>([]);
+  const [lock, setLock] = useState<ScanLock>(initialScanLock);
+  // The latest frame and what it read, for "Capture now"
+  const lastFrame = useRef<{ uri: string; candidates: VinCandidate[] } | null>(
+    null,
+  );
+  const [canCapture, setCanCapture] = useState(false);
+  const [source, setSource] = useState<ScanSource>("auto");
+  // In "auto", whether the barcode head start has run out
+  const [fallback, setFallback] = useState(false);
+  const [barcode, setBarcode] = useState<{ rect: Rect; isVin: boolean } | null>(
+    null,
+  );
+  // Barcode and OCR can both land at once; only the first result counts
+  const finished = useRef(false);
+
+  const readBarcodes = source !== "ocr";
+  const readText = source === "ocr" || (source === "auto" && fallback);
+
+  useEffect(() => {
+    loadScanSource().then(setSource);
+  }, []);
+
+  useEffect(() => {
+    if (source !== "auto" || !ready) return;
+    setFallback(false);
+    const t = setTimeout(() => setFallback(true), AUTO_OCR_DELAY_MS);
+    return () => clearTimeout(t);
+  }, [source, ready]);
+
+  // A non-VIN barcode only stays outlined while the camera keeps seeing it
+  useEffect(() => {
+    if (!barcode) return;
+    const t = setTimeout(() => setBarcode(null), 1000);
+    return () => clearTimeout(t);
+  }, [barcode]);
+
+  useEffect(() => {
+    if (!ready || !view || !readText) return;
+    let active = true;
+    let current = initialScanLock;
+    const guide = guideRect(view);
+
+    (async () => {
+      while (active) {
+        try {
+          const photo = await cameraRef.current?.takePictureAsync({
+            quality: 0.4,
+            shutterSound: false,
+          });
+          if (!photo) break;
+          if (!active || finished.current) {
+            deleteFrame(photo.uri);
+            break;
+          }
+          const result = await TextRecognition.recognize(photo.uri);
+          if (!active || finished.current) {
+            deleteFrame(photo.uri);
+            break;
+          }
+
+          const lines = result.blocks
+            .flatMap((b) => b.lines)
+            .filter((l) => l.frame)
+            .map((l) => ({
+              text: l.text,
+              rect: photoRectToView(l.frame!, photo, view),
+            }))
+            .filter((l) => centerInside(l.rect, guide));
+          const candidates = plausibleCandidates(
+            rankVinCandidates(lines.map((l) => l.text).join("\n")),
+          );
+          // Only an unambiguous frame counts towards the lock
+          current = nextScanLock(
+            current,
+            candidates.length === 1 ? candidates[0] : null,
+          );
+
+          const raw = current.candidate?.raw;
+          setBoxes(
+            lines.map((l, i) => ({
+              key: `${i}:${l.text}`,
+              rect: l.rect,
+              isVin:
+                !!raw &&
+                l.text
+                  .toUpperCase()
+                  .replace(/[^A-Z0-9]/g, "")
+                  .includes(raw),
+            })),
+          );
+          setLock(current);
+
+          const previous = lastFrame.current;
+          lastFrame.current = { uri: photo.uri, candidates };
+          setCanCapture(candidates.length > 0);
+          if (previous) deleteFrame(previous.uri);
+
+          if (isLocked(current) && current.candidate) {
+            active = false;
+            finished.current = true;
+            // The photo goes with the result now
+            lastFrame.current = null;
+            onResult([current.candidate], photo.uri);
+            return;
+          }
+        } catch {
+          // The camera can refuse a still while it refocuses; try again
+        }
+        await new Promise((r) => setTimeout(r, FRAME_INTERVAL_MS));
+      }
+    })();
+
+    return () => {
+      active = false;
+      // Kept only for "capture now" while this loop runs
+      if (lastFrame.current) deleteFrame(lastFrame.current.uri);
+      lastFrame.current = null;
+      setBoxes([]);
+      setLock(initialScanLock);
+      setCanCapture(false);
+    };
+    // onResult changes every render of the parent; the loop only needs
+    // the one it started with
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [ready, view, readText]);
+
+  function onBarcodeScanned(result: BarcodeScanningResult) {
+    if (finished.current) return;
+    const { origin, size } = result.bounds;
+    const rect = {
+      left: origin.x,
+      top: origin.y,
+      width: size.width,
+      height: size.height,
+    };
+    const candidate = barcodeCandidate(result.data);
+    setBarcode({ rect, isVin: !!candidate });
+    if (!candidate) return;
+    finished.current = true;
+    onResult([candidate], null);
+  }
+
+  function chooseSource(next: ScanSource) {
+    setSource(next);
+    saveScanSource(next);
+  }
+
+  function onLayout(e: LayoutChangeEvent) {
+    const { width, height } = e.nativeEvent.layout;
+    setView({ width, height });
+  }
+
+  // expo-camera can't focus on a point, but on iOS switching autofocus off
+  // and on again makes it refocus (on the centre, where the guide is).
+  function onTapFocus(x: number, y: number) {
+    setFocusAt({ x, y });
+    setAutofocus("off");
+    setTimeout(() => setAutofocus("on"), 50);
+    setTimeout(() => setFocusAt(null), 800);
+  }
+
+  function captureNow() {
+    const frame = lastFrame.current;
+    if (!frame?.candidates.length || finished.current) return;
+    finished.current = true;
+    lastFrame.current = null;
+    onResult(frame.candidates, frame.uri);
+  }
+
+  const guide = view && guideRect(view);
+  const locked = isLocked(lock);
+
+  let status = "Line the VIN up inside the box";
+  if (lock.candidate) {
+    status = `${lock.candidate.vin}  ${Math.min(lock.hits, LOCK_FRAMES)}/${LOCK_FRAMES}`;
+  } else if (barcode && !barcode.isVin) {
+    status = "That barcode isn’t a VIN";
+  } else if (!readText) {
+    status = "Point at the VIN barcode";
+  }
+
+  return (
+    <View style={styles.root} onLayout={onLayout}>
+      <CameraView
+        ref={cameraRef}
+        style={StyleSheet.absoluteFill}
+        facing="back"
+        enableTorch={torch}
+        autofocus={autofocus}
+        animateShutter={false}
+        onCameraReady={() => setReady(true)}
+        barcodeScannerSettings={{ barcodeTypes: [...VIN_BARCODE_TYPES] }}
+        onBarcodeScanned={readBarcodes ? onBarcodeScanned : undefined}
+      />
+
+      <Pressable
+        style={StyleSheet.absoluteFill}
+        onPress={(e) =>
+          onTapFocus(e.nativeEvent.locationX, e.nativeEvent.locationY)
+        }
+      />
+
+      <View style={StyleSheet.absoluteFill} pointerEvents="none">
+        {guide && (
+          <View
+            style={[
+              styles.guide,
+              guide,
+              lock.candidate && styles.guideFound,
+              locked && styles.guideLocked,
+            ]}
+          />
+        )}
+        {boxes.map((b) => (
+          <View
+            key={b.key}
+            style={[styles.box, b.rect, b.isVin && styles.boxVin]}
+          />
+        ))}
+        {barcode && (
+          <View
+            style={[
+              styles.barcode,
+              barcode.rect,
+              !barcode.isVin && styles.barcodeOther,
+            ]}
+          />
+        )}
+        {focusAt && (
+          <View
+            style={[
+              styles.focusRing,
+              { left: focusAt.x - 30, top: focusAt.y - 30 },
+            ]}
+          />
+        )}
+        <View style={styles.status}>
+          <Text style={styles.statusText}>{status}</Text>
+        </View>
+      </View>
+
+      <View style={styles.controls}>
+        <View style={styles.sourceRow}>
+          {SCAN_SOURCES.map((s) => (
+            <Pressable
+              key={s.key}
+              onPress={() => chooseSource(s.key)}
+              style={[styles.sourceChip, source === s.key && styles.smallBtnOn]}
+            >
+              <Text
+                style={[
+                  styles.smallBtnText,
+                  source === s.key && styles.smallBtnTextOn,
+                ]}
+              >
+                {s.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+        <View style={styles.controlRow}>
+          <Pressable
+            onPress={() => setTorch((t) => !t)}
+            style={[styles.smallBtn, torch && styles.smallBtnOn]}
+          >
+            <Text style={[styles.smallBtnText, torch && styles.smallBtnTextOn]}>
+              {torch ? "Torch on" : "Torch off"}
+            </Text>
+          </Pressable>
+          {readText && (
+            <Pressable
+              onPress={captureNow}
+              disabled={!canCapture}
+              style={[styles.smallBtn, !canCapture && styles.disabled]}
+            >
+              <Text style={styles.smallBtnText}>Capture now</Text>
+            </Pressable>
+          )}
+        </View>
+        <Pressable onPress={onCancel} style={styles.cancelBtn}>
+          <Text style={styles.cancelText}>Cancel</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  root: { flex: 1, backgroundColor: "black" },
+  guide: {
+    position: "absolute",
+    borderWidth: 2,
+    borderColor: "rgba(255,255,255,0.8)",
+    borderRadius: 12,
+  },
+  guideFound: { borderColor: "#ffd54f" },
+  guideLocked: { borderColor: "#4caf50", borderWidth: 4 },
+  box: {
+    position: "absolute",
+    borderWidth: 1,
+    borderColor: "rgba(255,213,79,0.8)",
+    borderRadius: 3,
+  },
+  boxVin: {
+    borderWidth: 2,
+    borderColor: "#4caf50",
+    backgroundColor: "rgba(76,175,80,0.15)",
+  },
+  barcode: {
+    position: "absolute",
+    borderWidth: 3,
+    borderColor: "#4caf50",
+    borderRadius: 4,
+  },
+  barcodeOther: { borderColor: "#ff7043", borderStyle: "dashed" },
+  focusRing: {
+    position: "absolute",
+    width: 60,
+    height: 60,
+    borderRadius: 30,
+    borderWidth: 2,
+    borderColor: "#ffd54f",
+  },
+  status: {
+    position: "absolute",
+    top: 16,
+    left: 16,
+    right: 16,
+    alignItems: "center",
+  },
+  statusText: {
+    color: "white",
+    fontWeight: "800",
+    backgroundColor: "rgba(0,0,0,0.55)",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 999,
+    overflow: "hidden",
+  },
+  controls: { position: "absolute", left: 16, right: 16, bottom: 24, gap: 12 },
+  controlRow: { flexDirection: "row", gap: 12 },
+  sourceRow: { flexDirection: "row", justifyContent: "center", gap: 8 },
+  sourceChip: {
+    backgroundColor: "rgba(0,0,0,0.6)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.5)",
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 999,
+  },
+  smallBtn: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.5)",
+    paddingVertical: 12,
+    borderRadius: 14,
+    alignItems: "center",
+  },
+  smallBtnOn: { backgroundColor: "white" },
+  smallBtnText: { color: "white", fontWeight: "800" },
+  smallBtnTextOn: { color: "#111" },
+  disabled: { opacity: 0.45 },
+  cancelBtn: {
+    backgroundColor: "#666",
+    paddingVertical: 12,
+    borderRadius: 14,
+    alignItems: "center",
+  },
+  cancelText: { color: "white", fontWeight: "800" },
+});
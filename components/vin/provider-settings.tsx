@@ -0,0 +1,207 @@
+import React, { useState } from "react";
+import { Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+
+import {
+  headersToText,
+  parseHeaders,
+  ProviderKind,
+  ProviderSettings,
+  RETRY_CHOICES,
+  SAFETY_BASE_URL,
+  TIMEOUT_CHOICES,
+  VPIC_BASE_URL,
+} from "@/lib/vin/provider";
+
+const KINDS: { kind: ProviderKind; label: string }[] = [
+  { kind: "vpic", label: "vPIC / server" },
+  { kind: "fixtures", label: "Fixtures" },
+];
+
+export function ProviderSettingsPanel({
+  settings,
+  onChange,
+}: {
+  settings: ProviderSettings;
+  onChange: (next: ProviderSettings) => void;
+}) {
+  // Text fields save when editing ends, not on every keystroke
+  const [baseUrl, setBaseUrl] = useState(settings.baseUrl);
+  const [safetyBaseUrl, setSafetyBaseUrl] = useState(settings.safetyBaseUrl);
+  const [headers, setHeaders] = useState(headersToText(settings.headers));
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.title}>Decoder</Text>
+      <View style={styles.wrap}>
+        {KINDS.map(({ kind, label }) => (
+          <Pressable
+            key={kind}
+            onPress={() => onChange({ ...settings, kind })}
+            style={[styles.chip, settings.kind === kind && styles.chipOn]}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                settings.kind === kind && styles.chipTextOn,
+              ]}
+            >
+              {label}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {settings.kind === "vpic" && (
+        <>
+          <View style={styles.labelRow}>
+            <Text style={styles.title}>Base URL</Text>
+            {settings.baseUrl !== VPIC_BASE_URL && (
+              <Pressable
+                onPress={() => {
+                  setBaseUrl(VPIC_BASE_URL);
+                  onChange({ ...settings, baseUrl: VPIC_BASE_URL });
+                }}
+              >
+                <Text style={styles.reset}>Use NHTSA</Text>
+              </Pressable>
+            )}
+          </View>
+          <TextInput
+            value={baseUrl}
+            onChangeText={setBaseUrl}
+            onEndEditing={() =>
+              onChange({
+                ...settings,
+                baseUrl: baseUrl.trim() || VPIC_BASE_URL,
+              })
+            }
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            placeholder={VPIC_BASE_URL}
+            style={styles.input}
+          />
+
+          <View style={styles.labelRow}>
+            <Text style={styles.title}>Recalls & complaints URL</Text>
+            {settings.safetyBaseUrl !== SAFETY_BASE_URL && (
+              <Pressable
+                onPress={() => {
+                  setSafetyBaseUrl(SAFETY_BASE_URL);
+                  onChange({ ...settings, safetyBaseUrl: SAFETY_BASE_URL });
+                }}
+              >
+                <Text style={styles.reset}>Use NHTSA</Text>
+              </Pressable>
+            )}
+          </View>
+          <TextInput
+            value={safetyBaseUrl}
+            onChangeText={setSafetyBaseUrl}
+            onEndEditing={() =>
+              onChange({
+                ...settings,
+                safetyBaseUrl: safetyBaseUrl.trim() || SAFETY_BASE_URL,
+              })
+            }
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            placeholder={SAFETY_BASE_URL}
+            style={styles.input}
+          />
+
+          <Text style={styles.title}>Headers (Name: value per line)</Text>
+          <TextInput
+            value={headers}
+            onChangeText={setHeaders}
+            onEndEditing={() =>
+              onChange({ ...settings, headers: parseHeaders(headers) })
+            }
+            autoCapitalize="none"
+            autoCorrect={false}
+            multiline
+            placeholder="Authorization: Bearer …"
+            style={[styles.input, styles.multiline]}
+          />
+
+          <Text style={styles.title}>Timeout</Text>
+          <View style={styles.wrap}>
+            {TIMEOUT_CHOICES.map((ms) => (
+              <Pressable
+                key={ms}
+                onPress={() => onChange({ ...settings, timeoutMs: ms })}
+                style={[
+                  styles.chip,
+                  settings.timeoutMs === ms && styles.chipOn,
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    settings.timeoutMs === ms && styles.chipTextOn,
+                  ]}
+                >
+                  {ms / 1000}s
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          <Text style={styles.title}>Retries on network and server errors</Text>
+          <View style={styles.wrap}>
+            {RETRY_CHOICES.map((n) => (
+              <Pressable
+                key={n}
+                onPress={() => onChange({ ...settings, retries: n })}
+                style={[styles.chip, settings.retries === n && styles.chipOn]}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    settings.retries === n && styles.chipTextOn,
+                  ]}
+                >
+                  {n === 0 ? "Off" : n}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    borderWidth: 1,
+    borderColor: "#e6e6e6",
+    borderRadius: 14,
+    padding: 12,
+    gap: 8,
+  },
+  title: { fontWeight: "700", opacity: 0.7 },
+  labelRow: { flexDirection: "row", justifyContent: "space-between" },
+  reset: { fontWeight: "700", opacity: 0.6 },
+  wrap: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+  chip: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 999,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+  chipOn: { backgroundColor: "#111", borderColor: "#111" },
+  chipText: { fontWeight: "700" },
+  chipTextOn: { color: "white" },
+  input: {
+    borderWidth: 1,
+    borderColor: "#ccc",
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
+  multiline: { minHeight: 60, textAlignVertical: "top" },
+});
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+import { VpicRecord } from "@/lib/vin/fields";
+import { VinDecoderProvider } from "@/lib/vin/provider";
+import { Complaint, Recall, vehicleQueryOf } from "@/lib/vin/recalls";
+
+const COMPLAINTS_SHOWN = 3;
+
+type Result<T> = { items: T[] } | { error: string };
+
+export function RecallsPanel({
+  provider,
+  vin,
+  record,
+  onRecallCount,
+}: {
+  provider: VinDecoderProvider;
+  // Vehicles of the same make, model and year share recalls, but each VIN
+  // gets its own count
+  vin: string;
+  record: VpicRecord;
+  onRecallCount: (count: number) => void;
+}) {
+  const [recalls, setRecalls] = useState<Result<Recall> | null>(null);
+  const [complaints, setComplaints] = useState<Result<Complaint> | null>(null);
+  const [allComplaints, setAllComplaints] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+  const query = vehicleQueryOf(record);
+  const queryKey = query && JSON.stringify(query);
+
+  useEffect(() => {
+    if (!query) return;
+    // A newer decode (or retry) cancels the requests still out
+    const controller = new AbortController();
+    const { signal } = controller;
+    setRecalls(null);
+    setComplaints(null);
+    setAllComplaints(false);
+    provider.recalls(query, signal).then(
+      (items) => {
+        if (signal.aborted) return;
+        setRecalls({ items });
+        onRecallCount(items.length);
+      },
+      (e) =>
+        !signal.aborted &&
+        setRecalls({ error: e?.message ?? "Lookup failed." }),
+    );
+    provider.complaints(query, signal).then(
+      (items) => !signal.aborted && setComplaints({ items }),
+      (e) =>
+        !signal.aborted &&
+        setComplaints({ error: e?.message ?? "Lookup failed." }),
+    );
+    return () => controller.abort();
+    // query is rebuilt every render; queryKey is its identity
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [provider, vin, queryKey, attempt]);
+
+  if (!query) return null;
+  const failed =
+    (recalls && "error" in recalls) || (complaints && "error" in complaints);
+
+  return (
+    <View style={styles.panel}>
+      <View style={styles.headRow}>
+        <Text style={styles.title}>Recalls</Text>
+        {recalls && "items" in recalls && (
+          <View
+            style={[styles.badge, !recalls.items.length && styles.badgeNone]}
+          >
+            <Text style={styles.badgeText}>{recalls.items.length}</Text>
+          </View>
+        )}
+      </View>
+
+      {!recalls && <ActivityIndicator style={styles.spinner} />}
+      {recalls && "error" in recalls && (
+        <Text style={styles.error}>Couldn’t load recalls: {recalls.error}</Text>
+      )}
+      {recalls && "items" in recalls && !recalls.items.length && (
+        <Text style={styles.muted}>
+          No recall campaigns for the {query.modelYear} {query.make}{" "}
+          {query.model}.
+        </Text>
+      )}
+      {recalls &&
+        "items" in recalls &&
+        recalls.items.map((r) => (
+          <View key={r.campaign} style={styles.card}>
+            <Text style={styles.campaign}>
+              {r.campaign}
+              {r.reportedAt ? ` · ${r.reportedAt}` : ""}
+            </Text>
+            {(r.parkIt || r.parkOutside || r.overTheAir) && (
+              <View style={styles.flags}>
+                {r.parkIt && <Flag text="Do not drive" danger />}
+                {r.parkOutside && <Flag text="Park outside" danger />}
+                {r.overTheAir && <Flag text="Over-the-air fix" />}
+              </View>
+            )}
+            <Text style={styles.component}>{r.component}</Text>
+            <Text style={styles.body}>{r.summary}</Text>
+            {!!r.remedy && (
+              <>
+                <Text style={styles.label}>Remedy</Text>
+                <Text style={styles.body}>{r.remedy}</Text>
+              </>
+            )}
+          </View>
+        ))}
+
+      <Text style={styles.title}>
+        Complaints
+        {complaints && "items" in complaints
+          ? ` (${complaints.items.length})`
+          : ""}
+      </Text>
+      {!complaints && <ActivityIndicator style={styles.spinner} />}
+      {complaints && "error" in complaints && (
+        <Text style={styles.error}>
+          Couldn’t load complaints: {complaints.error}
+        </Text>
+      )}
+      {complaints && "items" in complaints && (
+        <>
+          {!complaints.items.length && (
+            <Text style={styles.muted}>No owner complaints on file.</Text>
+          )}
+          {complaints.items
+            .slice(0, allComplaints ? undefined : COMPLAINTS_SHOWN)
+            .map((c) => (
+              <View key={c.id} style={styles.card}>
+                <Text style={styles.campaign}>
+                  {c.components}
+                  {c.filedAt ? ` · ${c.filedAt}` : ""}
+                </Text>
+                {(c.crash || c.fire || c.injuries > 0 || c.deaths > 0) && (
+                  <View style={styles.flags}>
+                    {c.crash && <Flag text="Crash" danger />}
+                    {c.fire && <Flag text="Fire" danger />}
+                    {c.injuries > 0 && (
+                      <Flag
+                        text={`${c.injuries} ${c.injuries === 1 ? "injury" : "injuries"}`}
+                        danger
+                      />
+                    )}
+                    {c.deaths > 0 && (
+                      <Flag
+                        text={`${c.deaths} ${c.deaths === 1 ? "death" : "deaths"}`}
+                        danger
+                      />
+                    )}
+                  </View>
+                )}
+                <Text style={styles.body}>{c.summary}</Text>
+              </View>
+            ))}
+          {complaints.items.length > COMPLAINTS_SHOWN && (
+            <Pressable onPress={() => setAllComplaints((a) => !a)}>
+              <Text style={styles.action}>
+                {allComplaints
+                  ? "Show fewer"
+                  : `Show all ${complaints.items.length}`}
+              </Text>
+            </Pressable>
+          )}
+        </>
+      )}
+
+      {failed && (
+        <Pressable
+          onPress={() => setAttempt((n) => n + 1)}
+          style={styles.retryBtn}
+        >
+          <Text style={styles.retryText}>Retry</Text>
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
+function Flag({ text, danger }: { text: string; danger?: boolean }) {
+  return (
+    <View style={[styles.flag, danger && styles.flagDanger]}>
+      <Text style={[styles.flagText, danger && styles.flagTextDanger]}>
+        {text}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: { gap: 10, paddingTop: 6 },
+  headRow: { flexDirection: "row", alignItems: "center", gap: 8 },
+  title: { fontWeight: "800", opacity: 0.7 },
+  badge: {
+    minWidth: 22,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 999,
+    backgroundColor: "#b00020",
+    alignItems: "center",
+  },
+  badgeNone: { backgroundColor: "#888" },
+  badgeText: { color: "white", fontWeight: "800", fontSize: 12 },
+  spinner: { alignSelf: "flex-start" },
+  error: { color: "#b00020", fontWeight: "600" },
+  muted: { opacity: 0.6 },
+  card: {
+    borderWidth: 1,
+    borderColor: "#e6e6e6",
+    borderRadius: 14,
+    padding: 12,
+    gap: 6,
+  },
+  campaign: { fontSize: 12, opacity: 0.6, fontWeight: "700" },
+  component: { fontSize: 16, fontWeight: "700" },
+  label: { fontSize: 12, opacity: 0.6, fontWeight: "700", paddingTop: 2 },
+  body: { opacity: 0.85 },
+  flags: { flexDirection: "row", flexWrap: "wrap", gap: 6 },
+  flag: {
+    borderRadius: 999,
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+    backgroundColor: "#eef2ff",
+  },
+  flagDanger: { backgroundColor: "#fff5f5" },
+  flagText: { fontSize: 12, fontWeight: "700", color: "#3730a3" },
+  flagTextDanger: { color: "#b00020" },
+  action: { fontWeight: "700", opacity: 0.6 },
+  retryBtn: {
+    alignSelf: "flex-start",
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    backgroundColor: "#111",
+  },
+  retryText: { color: "white", fontWeight: "700" },
+});
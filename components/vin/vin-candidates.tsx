@@ -0,0 +1,81 @@
+import React from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+
+import { VinCandidate } from "@/lib/vin/ocr";
+import { lookupWmi } from "@/lib/vin/wmi";
+
+// Shown when a scan reads more than one plausible VIN, so the user picks
+// rather than us guessing.
+export function VinCandidates({
+  candidates,
+  onPick,
+  onDismiss,
+}: {
+  candidates: VinCandidate[];
+  onPick: (vin: string) => void;
+  onDismiss: () => void;
+}) {
+  return (
+    <View style={styles.box}>
+      <View style={styles.headRow}>
+        <Text style={styles.title}>Which VIN is it?</Text>
+        <Pressable onPress={onDismiss} hitSlop={8}>
+          <Text style={styles.dismiss}>Dismiss</Text>
+        </Pressable>
+      </View>
+      {candidates.map((c) => {
+        const make = lookupWmi(c.vin)?.make;
+        return (
+          <Pressable
+            key={c.vin}
+            onPress={() => onPick(c.vin)}
+            style={({ pressed }) => [styles.row, pressed && styles.pressed]}
+          >
+            <Text style={styles.vin}>{c.vin}</Text>
+            <Text style={styles.meta}>
+              {[
+                c.checkDigitOk ? "Check digit ✓" : "Check digit ✗",
+                make,
+                c.corrections
+                  ? `${c.corrections} ${c.corrections === 1 ? "fix" : "fixes"}`
+                  : null,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  box: {
+    borderWidth: 1,
+    borderColor: "#f0dca0",
+    backgroundColor: "#fff8e1",
+    borderRadius: 14,
+    padding: 12,
+    gap: 8,
+  },
+  headRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  title: { fontWeight: "800" },
+  dismiss: { fontWeight: "700", opacity: 0.6 },
+  row: {
+    borderWidth: 1,
+    borderColor: "#e6d39a",
+    backgroundColor: "white",
+    borderRadius: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    gap: 2,
+  },
+  pressed: { opacity: 0.7 },
+  vin: { fontSize: 16, fontWeight: "700", letterSpacing: 0.5 },
+  meta: { fontSize: 12, opacity: 0.7, fontWeight: "600" },
+});
@@ -0,0 +1,23 @@
+import { useEffect, useState } from "react";
+
+import {
+  GarageVehicle,
+  getGarage,
+  loadGarage,
+  subscribeGarage,
+} from "@/lib/vin/garage";
+
+// Saved vehicles, kept in sync across screens.
+export function useGarage(): GarageVehicle[] {
+  const [vehicles, setVehicles] = useState(getGarage);
+
+  useEffect(() => {
+    const unsubscribe = subscribeGarage(setVehicles);
+    loadGarage();
+    // It may have loaded before we subscribed
+    setVehicles(getGarage());
+    return unsubscribe;
+  }, []);
+
+  return vehicles;
+}
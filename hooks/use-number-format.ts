@@ -0,0 +1,31 @@
+import { useEffect, useMemo, useState } from "react";
+
+import {
+  getNumberFormatSettings,
+  loadNumberFormat,
+  NumberFormat,
+  NumberFormatSettings,
+  resolveNumberFormat,
+  saveNumberFormat,
+  subscribeNumberFormat,
+} from "@/lib/format";
+
+// The saved number format, kept in sync across screens.
+export function useNumberFormat(): {
+  format: NumberFormat;
+  settings: NumberFormatSettings;
+  update: (next: NumberFormatSettings) => Promise<void>;
+} {
+  const [settings, setSettings] = useState(getNumberFormatSettings);
+
+  useEffect(() => {
+    const unsubscribe = subscribeNumberFormat(setSettings);
+    loadNumberFormat();
+    // It may have loaded before we subscribed
+    setSettings(getNumberFormatSettings());
+    return unsubscribe;
+  }, []);
+
+  const format = useMemo(() => resolveNumberFormat(settings), [settings]);
+  return { format, settings, update: saveNumberFormat };
+}
@@ -0,0 +1,279 @@
+// Base-10 arbitrary-precision numbers for the calculator.
+// A value is coef × 10^exp with a BigInt coefficient, so 0.1 + 0.2 is exactly 0.3.
+
+export type Decimal = { coef: bigint; exp: number };
+
+export type RoundingMode =
+  "half-up" | "half-even" | "half-down" | "up" | "down" | "ceiling" | "floor";
+
+export const ROUNDING_MODES: RoundingMode[] = [
+  "half-up",
+  "half-even",
+  "half-down",
+  "up",
+  "down",
+  "ceiling",
+  "floor",
+];
+
+export type DecimalContext = {
+  precision: number; // significant digits kept by division and other inexact ops
+  rounding: RoundingMode;
+};
+
+export const defaultContext: DecimalContext = {
+  precision: 20,
+  rounding: "half-up",
+};
+
+// Anything with a decimal exponent past this is an overflow; below the
+// negative of it a value flushes to zero.
+const MAX_EXP = 999;
+// Hard cap so repeated multiplication can't grow coefficients forever.
+const MAX_DIGITS = 100;
+
+// The single error every calculation failure funnels into.
+export class CalcError extends Error {}
+
+export const ZERO: Decimal = { coef: 0n, exp: 0 };
+export const ONE: Decimal = { coef: 1n, exp: 0 };
+
+function pow10(n: number): bigint {
+  return 10n ** BigInt(n);
+}
+
+function abs(n: bigint): bigint {
+  return n < 0n ? -n : n;
+}
+
+function digitCount(n: bigint): number {
+  return n === 0n ? 1 : abs(n).toString().length;
+}
+
+// Exponent of the leading digit, e.g. 1234.5 → 3.
+export function adjustedExp(d: Decimal): number {
+  return d.exp + digitCount(d.coef) - 1;
+}
+
+// Strips trailing zeros and enforces the overflow/underflow limits.
+function finish(d: Decimal): Decimal {
+  if (d.coef === 0n) return ZERO;
+  let { coef, exp } = d;
+  while (coef % 10n === 0n) {
+    coef /= 10n;
+    exp++;
+  }
+  const out = { coef, exp };
+  const adj = adjustedExp(out);
+  if (adj > MAX_EXP) throw new CalcError("Overflow");
+  if (adj < -MAX_EXP) return ZERO;
+  return out;
+}
+
+function shouldRoundUp(
+  quotient: bigint,
+  rem: bigint,
+  divisor: bigint,
+  negative: boolean,
+  mode: RoundingMode,
+  sticky: boolean,
+): boolean {
+  const nonZero = rem !== 0n || sticky;
+  if (!nonZero) return false;
+  // > 0 past the halfway point, 0 exactly on it, < 0 before it
+  let half = 2n * rem - divisor;
+  if (half === 0n && sticky) half = 1n;
+
+  switch (mode) {
+    case "down":
+      return false;
+    case "up":
+      return true;
+    case "ceiling":
+      return !negative;
+    case "floor":
+      return negative;
+    case "half-up":
+      return half >= 0n;
+    case "half-down":
+      return half > 0n;
+    case "half-even":
+      return half > 0n || (half === 0n && quotient % 2n === 1n);
+  }
+}
+
+// Rounds so no digit sits below 10^minExp. `sticky` says the true value has
+// more non-zero digits beyond the coefficient (from an inexact division).
+function quantize(
+  d: Decimal,
+  minExp: number,
+  mode: RoundingMode,
+  sticky = false,
+): Decimal {
+  if (d.exp >= minExp && !sticky) return finish(d);
+  const drop = Math.max(0, minExp - d.exp);
+  const divisor = pow10(drop);
+  const mag = abs(d.coef);
+  let quotient = mag / divisor;
+  const rem = mag % divisor;
+  if (shouldRoundUp(quotient, rem, divisor, d.coef < 0n, mode, sticky)) {
+    quotient += 1n;
+  }
+  return finish({
+    coef: d.coef < 0n ? -quotient : quotient,
+    exp: d.exp + drop,
+  });
+}
+
+export function roundSignificant(
+  d: Decimal,
+  digits: number,
+  mode: RoundingMode,
+  sticky = false,
+): Decimal {
+  return quantize(d, adjustedExp(d) - digits + 1, mode, sticky);
+}
+
+export function roundPlaces(
+  d: Decimal,
+  places: number,
+  mode: RoundingMode,
+): Decimal {
+  return quantize(d, -places, mode);
+}
+
+export function parseDecimal(text: string): Decimal | null {
+  const m = /^([+\-−]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text.trim());
+  if (!m) return null;
+  const [, sign, int = "", frac = "", e] = m;
+  if (!int && !frac) return null;
+  const coef = BigInt(int + frac || "0");
+  try {
+    return finish({
+      coef: sign === "-" || sign === "−" ? -coef : coef,
+      exp: (e ? Number(e) : 0) - frac.length,
+    });
+  } catch {
+    return null;
+  }
+}
+
+export function fromNumber(n: number): Decimal {
+  if (!Number.isFinite(n)) throw new CalcError("Overflow");
+  // String(n) is the shortest text that round-trips, so 0.1 stays 0.1
+  return parseDecimal(String(n)) ?? ZERO;
+}
+
+export function toJsNumber(d: Decimal): number {
+  return Number(`${d.coef}e${d.exp}`);
+}
+
+export function isZero(d: Decimal): boolean {
+  return d.coef === 0n;
+}
+
+export function isInteger(d: Decimal): boolean {
+  return d.exp >= 0 || d.coef % pow10(-d.exp) === 0n;
+}
+
+export function negate(d: Decimal): Decimal {
+  return d.coef === 0n ? ZERO : { coef: -d.coef, exp: d.exp };
+}
+
+export function compare(a: Decimal, b: Decimal): number {
+  const diff = subtract(a, b).coef;
+  return diff === 0n ? 0 : diff < 0n ? -1 : 1;
+}
+
+export function add(a: Decimal, b: Decimal): Decimal {
+  const exp = Math.min(a.exp, b.exp);
+  const coef = a.coef * pow10(a.exp - exp) + b.coef * pow10(b.exp - exp);
+  return finish({ coef, exp });
+}
+
+export function subtract(a: Decimal, b: Decimal): Decimal {
+  return add(a, negate(b));
+}
+
+export function multiply(a: Decimal, b: Decimal, ctx: DecimalContext): Decimal {
+  const out = { coef: a.coef * b.coef, exp: a.exp + b.exp };
+  if (digitCount(out.coef) <= MAX_DIGITS) return finish(out);
+  return roundSignificant(out, MAX_DIGITS, ctx.rounding);
+}
+
+export function divide(a: Decimal, b: Decimal, ctx: DecimalContext): Decimal {
+  if (b.coef === 0n) throw new CalcError("Division by zero");
+  if (a.coef === 0n) return ZERO;
+  // Scale the dividend so the integer quotient has more digits than we keep
+  const shift = Math.max(
+    0,
+    ctx.precision + digitCount(b.coef) - digitCount(a.coef) + 1,
+  );
+  const num = a.coef * pow10(shift);
+  const coef = num / b.coef;
+  const sticky = num % b.coef !== 0n;
+  return roundSignificant(
+    { coef, exp: a.exp - b.exp - shift },
+    ctx.precision,
+    ctx.rounding,
+    sticky,
+  );
+}
+
+// Integer square root by Newton's method.
+function isqrt(n: bigint): bigint {
+  if (n < 2n) return n;
+  let x = n;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + n / x) / 2n;
+  }
+  return x;
+}
+
+export function squareRoot(d: Decimal, ctx: DecimalContext): Decimal {
+  if (d.coef < 0n) throw new CalcError("Domain error");
+  if (d.coef === 0n) return ZERO;
+  // Widen the coefficient (keeping the exponent even) so the integer root
+  // carries a couple of digits past the precision
+  let shift = Math.max(0, 2 * (ctx.precision + 2) - digitCount(d.coef));
+  if ((d.exp - shift) % 2 !== 0) shift++;
+  const coef = d.coef * pow10(shift);
+  const root = isqrt(coef);
+  return roundSignificant(
+    { coef: root, exp: (d.exp - shift) / 2 },
+    ctx.precision,
+    ctx.rounding,
+    root * root !== coef,
+  );
+}
+
+// Multiplies by 10^n without any rounding (percent, EE entry).
+export function scaleBy10(d: Decimal, n: number): Decimal {
+  return finish({ coef: d.coef, exp: d.exp + n });
+}
+
+// Plain digits for everyday magnitudes, d.ddde±N outside of them.
+export function decimalToString(d: Decimal): string {
+  if (d.coef === 0n) return "0";
+  const neg = d.coef < 0n;
+  const digits = abs(d.coef).toString();
+  const adj = adjustedExp(d);
+
+  let body: string;
+  if (adj < -10 || adj >= 40) {
+    const mantissa =
+      digits.length > 1 ? `${digits[0]}.${digits.slice(1)}` : digits;
+    body = `${mantissa}e${adj < 0 ? "-" : "+"}${Math.abs(adj)}`;
+  } else if (d.exp >= 0) {
+    body = digits + "0".repeat(d.exp);
+  } else {
+    const point = digits.length + d.exp;
+    body =
+      point > 0
+        ? `${digits.slice(0, point)}.${digits.slice(point)}`
+        : `0.${"0".repeat(-point)}${digits}`;
+  }
+  return neg ? `-${body}` : body;
+}
@@ -0,0 +1,197 @@
+import { CalcError, Decimal, negate } from "./decimal";
+import { applyOp, CalcContext, Op, toDecimal } from "./ops";
+
+export type Token =
+  | { kind: "num"; text: string }
+  | { kind: "op"; op: Op }
+  | { kind: "lparen" }
+  | { kind: "rparen" };
+
+type OpInfo = { prec: number; assoc: "left" | "right" };
+
+// Higher binds tighter. Unary minus sits above × and ÷ so "−2 × 3" is (−2) × 3,
+// but below powers so "−2 ^ 2" is −(2 ^ 2). Bitwise ops follow C: OR, XOR,
+// AND, then shifts, all below + and −.
+const BINARY: Record<Op, OpInfo> = {
+  OR: { prec: 1, assoc: "left" },
+  XOR: { prec: 2, assoc: "left" },
+  AND: { prec: 3, assoc: "left" },
+  "<<": { prec: 4, assoc: "left" },
+  ">>": { prec: 4, assoc: "left" },
+  "+": { prec: 5, assoc: "left" },
+  "−": { prec: 5, assoc: "left" },
+  "×": { prec: 6, assoc: "left" },
+  "÷": { prec: 6, assoc: "left" },
+  "^": { prec: 8, assoc: "right" },
+  "ⁿ√": { prec: 8, assoc: "right" },
+};
+const UNARY_PREC = 7;
+
+export function num(text: string): Token {
+  return { kind: "num", text };
+}
+
+export function opToken(op: Op): Token {
+  return { kind: "op", op };
+}
+
+// Does the expression end in a spot where a number is expected next?
+export function needsOperand(tokens: Token[]): boolean {
+  const last = tokens[tokens.length - 1];
+  return !last || last.kind === "op" || last.kind === "lparen";
+}
+
+export function openParens(tokens: Token[]): number {
+  let depth = 0;
+  for (const t of tokens) {
+    if (t.kind === "lparen") depth++;
+    if (t.kind === "rparen") depth--;
+  }
+  return depth;
+}
+
+// Index of the "(" matching the ")" at `close`, or -1.
+export function matchingParen(tokens: Token[], close: number): number {
+  let depth = 0;
+  for (let i = close; i >= 0; i--) {
+    if (tokens[i].kind === "rparen") depth++;
+    if (tokens[i].kind === "lparen") depth--;
+    if (depth === 0) return i;
+  }
+  return -1;
+}
+
+// Evaluates a token list. Unclosed parens are closed at the end; anything
+// else malformed throws, as do the CalcErrors raised by the ops.
+export function evaluateTokens(tokens: Token[], ctx: CalcContext): Decimal {
+  let pos = 0;
+
+  function parseExpr(minPrec: number): Decimal {
+    let lhs = parseUnary();
+    for (;;) {
+      const t = tokens[pos];
+      if (!t || t.kind !== "op") return lhs;
+      const { prec, assoc } = BINARY[t.op];
+      if (prec < minPrec) return lhs;
+      pos++;
+      const rhs = parseExpr(assoc === "left" ? prec + 1 : prec);
+      lhs = applyOp(lhs, rhs, t.op, ctx);
+    }
+  }
+
+  function parseUnary(): Decimal {
+    const t = tokens[pos];
+    if (t?.kind === "op" && t.op === "−") {
+      pos++;
+      return negate(parseExpr(UNARY_PREC));
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): Decimal {
+    const t = tokens[pos++];
+    if (!t) throw new Error("Unexpected end of expression.");
+    if (t.kind === "num") return toDecimal(t.text, ctx.int);
+    if (t.kind === "lparen") {
+      const inner = parseExpr(0);
+      const next = tokens[pos];
+      if (next?.kind === "rparen") pos++;
+      else if (next) throw new Error("Expected “)”.");
+      return inner;
+    }
+    throw new Error("Unexpected token.");
+  }
+
+  const result = parseExpr(0);
+  if (pos < tokens.length) throw new Error("Unexpected token.");
+  return result;
+}
+
+// Best-effort value of an unfinished expression, ignoring a dangling operator
+// or open paren at the end. Returns null when there's nothing sensible to show.
+export function previewTokens(
+  tokens: Token[],
+  ctx: CalcContext,
+): Decimal | null {
+  const trimmed = [...tokens];
+  while (trimmed.length && needsOperand(trimmed)) trimmed.pop();
+  if (!trimmed.length) return null;
+  try {
+    return evaluateTokens(trimmed, ctx);
+  } catch {
+    return null;
+  }
+}
+
+// formatNum lets the screen show numbers in the user's locale.
+export function tokensToString(
+  tokens: Token[],
+  formatNum: (text: string) => string = (text) => text,
+): string {
+  let out = "";
+  tokens.forEach((t, i) => {
+    const prev = tokens[i - 1];
+    const gap = prev && prev.kind !== "lparen" && t.kind !== "rparen";
+    if (gap) out += " ";
+    if (t.kind === "num") out += formatNum(t.text);
+    else if (t.kind === "op") out += t.op;
+    else out += t.kind === "lparen" ? "(" : ")";
+  });
+  return out;
+}
+
+const TEXT_OPS: Record<string, Op> = {
+  "+": "+",
+  "-": "−",
+  "−": "−",
+  "*": "×",
+  "×": "×",
+  "/": "÷",
+  "÷": "÷",
+  "^": "^",
+};
+
+// Reads pasted text like "12 × (3.5 − 1)" back into tokens. Numbers go
+// through parseNum so the caller can accept locale separators or radix
+// digits; returns null for anything that isn't a well-formed expression.
+export function parseExpression(
+  text: string,
+  parseNum: (text: string) => string | null,
+  ctx: CalcContext,
+): Token[] | null {
+  const tokens: Token[] = [];
+  let run = "";
+
+  function flush(): boolean {
+    const t = run.trim();
+    run = "";
+    if (!t) return true;
+    const canonical = parseNum(t);
+    if (canonical === null) return false;
+    tokens.push(num(canonical));
+    return true;
+  }
+
+  for (const ch of text) {
+    const op = TEXT_OPS[ch];
+    // The sign of an exponent belongs to the number: 1e-5
+    if (op && (ch === "+" || ch === "-") && /\de$/i.test(run.trim())) {
+      run += ch;
+    } else if (op || ch === "(" || ch === ")") {
+      if (!flush()) return null;
+      if (op) tokens.push(opToken(op));
+      else tokens.push({ kind: ch === "(" ? "lparen" : "rparen" });
+    } else {
+      run += ch;
+    }
+  }
+  if (!flush() || !tokens.length) return null;
+
+  try {
+    evaluateTokens(tokens, ctx);
+  } catch (e) {
+    // Division by zero and friends are still valid input
+    if (!(e instanceof CalcError)) return null;
+  }
+  return tokens;
+}
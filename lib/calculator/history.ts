@@ -0,0 +1,55 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { Token } from "./expression";
+
+export type HistoryEntry = {
+  id: string;
+  expression: string; // as shown on the tape
+  tokens: Token[]; // so the expression can be loaded back for editing
+  result: string;
+  at: number; // epoch ms
+};
+
+const HISTORY_KEY = "calc_history_v1";
+export const MAX_HISTORY = 200;
+
+function isEntry(x: any): x is HistoryEntry {
+  return (
+    x &&
+    typeof x.id === "string" &&
+    typeof x.expression === "string" &&
+    Array.isArray(x.tokens) &&
+    typeof x.result === "string" &&
+    typeof x.at === "number"
+  );
+}
+
+export function makeHistoryEntry(
+  expression: string,
+  tokens: Token[],
+  result: string,
+): HistoryEntry {
+  const at = Date.now();
+  return {
+    id: `${at}-${Math.random().toString(36).slice(2, 8)}`,
+    expression,
+    tokens,
+    result,
+    at,
+  };
+}
+
+export async function loadHistory(): Promise<HistoryEntry[]> {
+  const raw = await AsyncStorage.getItem(HISTORY_KEY);
+  if (!raw) return [];
+  try {
+    const arr = JSON.parse(raw);
+    return Array.isArray(arr) ? arr.filter(isEntry) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function saveHistory(history: HistoryEntry[]) {
+  await AsyncStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+}
@@ -0,0 +1,54 @@
+import { Op } from "./ops";
+import { Action } from "./reducer";
+
+// Physical keys → calculator actions. `key` is a KeyboardEvent.key value
+// ("7", "Enter", "Backspace"…) or, on native, a single typed character.
+const KEY_OPS: Record<string, Op> = {
+  "+": "+",
+  "-": "−",
+  "−": "−",
+  "*": "×",
+  "×": "×",
+  x: "×",
+  "/": "÷",
+  "÷": "÷",
+  "^": "^",
+  "&": "AND",
+  "|": "OR",
+  "<": "<<",
+  ">": ">>",
+};
+
+export function keyToAction(key: string, programmer: boolean): Action | null {
+  if (/^[0-9]$/.test(key)) return { type: "DIGIT", digit: key };
+  // a–f are hex digits in programmer mode; the reducer drops ones the radix
+  // can't use
+  if (programmer && /^[a-f]$/i.test(key)) {
+    return { type: "DIGIT", digit: key.toUpperCase() };
+  }
+  // Both marks mean "decimal point", whatever the display locale is
+  if (key === "." || key === ",") return { type: "DOT" };
+  if (key === "~" && programmer) return { type: "BIT_NOT" };
+
+  const op = KEY_OPS[key];
+  if (op) return { type: "OP", op };
+
+  switch (key) {
+    case "Enter":
+    case "=":
+      return { type: "EQUALS" };
+    case "Backspace":
+      return { type: "DELETE" };
+    case "Delete":
+      return { type: "CLEAR_ENTRY" };
+    case "Escape":
+      return { type: "CLEAR" };
+    case "%":
+      return { type: "PERCENT" };
+    case "(":
+      return { type: "PAREN_OPEN" };
+    case ")":
+      return { type: "PAREN_CLOSE" };
+  }
+  return null;
+}
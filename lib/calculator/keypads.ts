@@ -0,0 +1,172 @@
+import { IntegerMode, isDigitForRadix } from "./programmer";
+import { Action, CalcMode } from "./reducer";
+import { AngleUnit } from "./scientific";
+
+export type KeyDef = {
+  label: string;
+  action: Action;
+  wide?: boolean;
+  fn?: boolean; // scientific function key, drawn smaller
+  disabled?: boolean;
+};
+
+// null leaves an empty slot so uneven rows keep their column widths
+export type Keypad = (KeyDef | null)[][];
+
+function digit(d: string): KeyDef {
+  return { label: d, action: { type: "DIGIT", digit: d } };
+}
+
+function fn(label: string, action: Action): KeyDef {
+  return { label, action, fn: true };
+}
+
+// Editing keys sit in a short row of their own above the digits
+function utilityRow(mode: CalcMode): KeyDef[] {
+  const utility: KeyDef[] = [
+    fn("↶", { type: "UNDO" }),
+    fn("↷", { type: "REDO" }),
+    fn("CE", { type: "CLEAR_ENTRY" }),
+    fn("⌫", { type: "DELETE" }),
+  ];
+  if (mode === "expression") {
+    utility.unshift(
+      fn("(", { type: "PAREN_OPEN" }),
+      fn(")", { type: "PAREN_CLOSE" }),
+    );
+  }
+  return utility;
+}
+
+export function basicKeypad(mode: CalcMode): Keypad {
+  return [
+    utilityRow(mode),
+    [
+      { label: "AC", action: { type: "CLEAR" } },
+      { label: "±", action: { type: "TOGGLE_SIGN" } },
+      { label: "%", action: { type: "PERCENT" } },
+      { label: "÷", action: { type: "OP", op: "÷" } },
+    ],
+    [
+      digit("7"),
+      digit("8"),
+      digit("9"),
+      { label: "×", action: { type: "OP", op: "×" } },
+    ],
+    [
+      digit("4"),
+      digit("5"),
+      digit("6"),
+      { label: "−", action: { type: "OP", op: "−" } },
+    ],
+    [
+      digit("1"),
+      digit("2"),
+      digit("3"),
+      { label: "+", action: { type: "OP", op: "+" } },
+    ],
+    [
+      { ...digit("0"), wide: true },
+      { label: ".", action: { type: "DOT" } },
+      { label: "=", action: { type: "EQUALS" } },
+    ],
+  ];
+}
+
+export function scientificKeys(angle: AngleUnit): KeyDef[] {
+  return [
+    fn("sin", { type: "FUNC", fn: "sin" }),
+    fn("cos", { type: "FUNC", fn: "cos" }),
+    fn("tan", { type: "FUNC", fn: "tan" }),
+    fn("sin⁻¹", { type: "FUNC", fn: "asin" }),
+    fn("cos⁻¹", { type: "FUNC", fn: "acos" }),
+    fn("tan⁻¹", { type: "FUNC", fn: "atan" }),
+    fn("ln", { type: "FUNC", fn: "ln" }),
+    fn("log", { type: "FUNC", fn: "log" }),
+    fn("x²", { type: "FUNC", fn: "square" }),
+    fn("xʸ", { type: "OP", op: "^" }),
+    fn("√", { type: "FUNC", fn: "sqrt" }),
+    fn("ⁿ√", { type: "OP", op: "ⁿ√" }),
+    fn("1/x", { type: "FUNC", fn: "reciprocal" }),
+    fn("x!", { type: "FUNC", fn: "factorial" }),
+    fn("π", { type: "CONSTANT", name: "pi" }),
+    fn("e", { type: "CONSTANT", name: "e" }),
+    fn("EE", { type: "EE" }),
+    // Shows the current unit; pressing switches to the other one
+    fn(angle === "deg" ? "DEG" : "RAD", {
+      type: "SET_ANGLE",
+      angle: angle === "deg" ? "rad" : "deg",
+    }),
+  ];
+}
+
+// Digits the radix can't spell are shown but disabled.
+export function programmerKeypad(mode: CalcMode, int: IntegerMode): Keypad {
+  const d = (label: string): KeyDef => ({
+    ...digit(label),
+    disabled: !isDigitForRadix(label, int.radix),
+  });
+  const hex = (label: string): KeyDef => ({ ...d(label), fn: true });
+  const bitOp = (op: "AND" | "OR" | "XOR" | "<<" | ">>") =>
+    fn(op, { type: "OP", op });
+
+  return [
+    utilityRow(mode),
+    ["A", "B", "C", "D", "E", "F"].map(hex),
+    [bitOp("AND"), bitOp("OR"), bitOp("XOR"), bitOp("<<"), bitOp(">>")],
+    [
+      { label: "AC", action: { type: "CLEAR" } },
+      { label: "±", action: { type: "TOGGLE_SIGN" } },
+      { label: "NOT", action: { type: "BIT_NOT" } },
+      { label: "÷", action: { type: "OP", op: "÷" } },
+    ],
+    [d("7"), d("8"), d("9"), { label: "×", action: { type: "OP", op: "×" } }],
+    [d("4"), d("5"), d("6"), { label: "−", action: { type: "OP", op: "−" } }],
+    [d("1"), d("2"), d("3"), { label: "+", action: { type: "OP", op: "+" } }],
+    [
+      { ...d("0"), wide: true },
+      { label: "=", action: { type: "EQUALS" }, wide: true },
+    ],
+  ];
+}
+
+function chunk<T>(items: T[], size: number): (T | null)[][] {
+  const rows: (T | null)[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    const row: (T | null)[] = items.slice(i, i + size);
+    while (row.length < size) row.push(null);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Portrait stacks the function keys above the basic pad; landscape puts them
+// in columns to its left, one function row per basic row.
+export function buildKeypad({
+  mode,
+  angle,
+  scientific,
+  landscape,
+  int,
+}: {
+  mode: CalcMode;
+  angle: AngleUnit;
+  scientific: boolean;
+  landscape: boolean;
+  int: IntegerMode | null; // programmer mode replaces the other pads
+}): Keypad {
+  if (int) return programmerKeypad(mode, int);
+
+  const basic = basicKeypad(mode);
+  if (!scientific) return basic;
+
+  const sci = scientificKeys(angle);
+  if (!landscape) return [...chunk(sci, 6), ...basic];
+
+  const width = Math.ceil(sci.length / basic.length);
+  const sciRows = chunk(sci, width);
+  return basic.map((row, i) => [
+    ...(sciRows[i] ?? Array<null>(width).fill(null)),
+    ...row,
+  ]);
+}
@@ -0,0 +1,35 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+export const VAR_NAMES = ["A", "B", "C", "D", "E", "F"] as const;
+export type VarName = (typeof VAR_NAMES)[number];
+
+export type MemoryBank = {
+  memory: string | null; // the M register
+  vars: Partial<Record<VarName, string>>;
+};
+
+const MEMORY_KEY = "calc_memory_v1";
+
+export const emptyMemory: MemoryBank = { memory: null, vars: {} };
+
+export async function loadMemory(): Promise<MemoryBank> {
+  const raw = await AsyncStorage.getItem(MEMORY_KEY);
+  if (!raw) return emptyMemory;
+  try {
+    const obj = JSON.parse(raw);
+    const vars: MemoryBank["vars"] = {};
+    for (const name of VAR_NAMES) {
+      if (typeof obj?.vars?.[name] === "string") vars[name] = obj.vars[name];
+    }
+    return {
+      memory: typeof obj?.memory === "string" ? obj.memory : null,
+      vars,
+    };
+  } catch {
+    return emptyMemory;
+  }
+}
+
+export async function saveMemory(bank: MemoryBank) {
+  await AsyncStorage.setItem(MEMORY_KEY, JSON.stringify(bank));
+}
@@ -0,0 +1,117 @@
+import {
+  add,
+  CalcError,
+  Decimal,
+  DecimalContext,
+  decimalToString,
+  divide,
+  multiply,
+  parseDecimal,
+  subtract,
+  ZERO,
+} from "./decimal";
+import {
+  applyBitOp,
+  BitOp,
+  formatInteger,
+  IntegerMode,
+  integerToDecimal,
+  parseInteger,
+  truncate,
+  wrap,
+} from "./programmer";
+import { power, root } from "./scientific";
+
+export type Op = "+" | "−" | "×" | "÷" | "^" | "ⁿ√" | BitOp;
+
+// Decimal precision plus, in programmer mode, the integer word to work in.
+export type CalcContext = DecimalContext & { int: IntegerMode | null };
+
+export const ERROR_DISPLAY = "Error";
+
+// Display/token text → value. Without an integer mode the text is decimal.
+export function toDecimal(display: string, int?: IntegerMode | null): Decimal {
+  if (int) {
+    const n = parseInteger(display, int);
+    return n === null ? ZERO : integerToDecimal(n);
+  }
+  // A half-typed EE entry like "2e" or "2e-" counts as exponent 0
+  return parseDecimal(display.replace(/e([+-]?)$/i, "e$10")) ?? ZERO;
+}
+
+export function formatNumber(n: Decimal, int?: IntegerMode | null): string {
+  if (int) return formatInteger(truncate(n), int);
+  return decimalToString(n);
+}
+
+function isBitOp(op: Op): op is BitOp {
+  return (
+    op === "AND" || op === "OR" || op === "XOR" || op === "<<" || op === ">>"
+  );
+}
+
+function applyIntegerOp(
+  a: Decimal,
+  b: Decimal,
+  op: Exclude<Op, BitOp>,
+  int: IntegerMode,
+): Decimal {
+  const x = truncate(a);
+  const y = truncate(b);
+  let out: bigint;
+  switch (op) {
+    case "+":
+      out = x + y;
+      break;
+    case "−":
+      out = x - y;
+      break;
+    case "×":
+      out = x * y;
+      break;
+    case "÷":
+      if (y === 0n) throw new CalcError("Division by zero");
+      out = x / y; // truncates toward zero like C
+      break;
+    case "^": {
+      if (y < 0n) throw new CalcError("Domain error");
+      // Only the low word matters, so wrap as we go
+      out = 1n;
+      let base = x;
+      for (let e = y; e > 0n; e >>= 1n) {
+        if (e & 1n) out = wrap(out * base, { ...int, signed: false });
+        base = wrap(base * base, { ...int, signed: false });
+      }
+      break;
+    }
+    case "ⁿ√":
+      throw new CalcError("Domain error");
+  }
+  return integerToDecimal(wrap(out, int));
+}
+
+// Throws CalcError on division by zero, overflow or a domain error.
+export function applyOp(
+  a: Decimal,
+  b: Decimal,
+  op: Op,
+  ctx: CalcContext,
+): Decimal {
+  if (isBitOp(op)) return applyBitOp(a, b, op, ctx.int);
+  if (ctx.int) return applyIntegerOp(a, b, op, ctx.int);
+
+  switch (op) {
+    case "+":
+      return add(a, b);
+    case "−":
+      return subtract(a, b);
+    case "×":
+      return multiply(a, b, ctx);
+    case "÷":
+      return divide(a, b, ctx);
+    case "^":
+      return power(a, b, ctx);
+    case "ⁿ√":
+      return root(a, b, ctx);
+  }
+}
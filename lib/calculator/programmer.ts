@@ -0,0 +1,136 @@
+// Integer arithmetic for programmer mode: values live in a fixed-width word
+// and are shown in a chosen radix. Negative numbers use two's complement.
+
+import { CalcError, Decimal, isInteger, parseDecimal, ZERO } from "./decimal";
+
+export type Radix = 2 | 8 | 10 | 16;
+export type WordSize = 8 | 16 | 32 | 64;
+
+export const RADIXES: Radix[] = [16, 10, 8, 2];
+export const WORD_SIZES: WordSize[] = [8, 16, 32, 64];
+
+export const RADIX_LABELS: Record<Radix, string> = {
+  16: "HEX",
+  10: "DEC",
+  8: "OCT",
+  2: "BIN",
+};
+
+export type IntegerMode = {
+  radix: Radix;
+  bits: WordSize;
+  signed: boolean; // DEC shows the two's-complement value, not the raw bits
+};
+
+export type BitOp = "AND" | "OR" | "XOR" | "<<" | ">>";
+
+function mask(bits: WordSize): bigint {
+  return (1n << BigInt(bits)) - 1n;
+}
+
+// Drops the fraction (toward zero) of a decimal.
+export function truncate(d: Decimal): bigint {
+  if (d.exp >= 0) return d.coef * 10n ** BigInt(d.exp);
+  return d.coef / 10n ** BigInt(-d.exp);
+}
+
+export function integerToDecimal(n: bigint): Decimal {
+  return parseDecimal(n.toString()) ?? ZERO;
+}
+
+// Fits any integer into the word: the raw bit pattern when unsigned, its
+// two's-complement reading when signed.
+export function wrap(n: bigint, mode: IntegerMode): bigint {
+  const pattern = n & mask(mode.bits);
+  if (mode.signed && pattern >> BigInt(mode.bits - 1) === 1n) {
+    return pattern - (1n << BigInt(mode.bits));
+  }
+  return pattern;
+}
+
+export function wrapDecimal(d: Decimal, mode: IntegerMode): Decimal {
+  return integerToDecimal(wrap(truncate(d), mode));
+}
+
+export function bitPattern(n: bigint, mode: IntegerMode): bigint {
+  return n & mask(mode.bits);
+}
+
+export function isDigitForRadix(digit: string, radix: Radix): boolean {
+  const v = parseInt(digit, 16);
+  return !Number.isNaN(v) && v < radix;
+}
+
+// Typed text in the mode's radix → value. A leading "-" is allowed in DEC.
+export function parseInteger(text: string, mode: IntegerMode): bigint | null {
+  const neg = text.startsWith("-");
+  const body = neg ? text.slice(1) : text;
+  if (!body || ![...body].every((c) => isDigitForRadix(c, mode.radix))) {
+    return null;
+  }
+  const prefix = { 16: "0x", 10: "", 8: "0o", 2: "0b" }[mode.radix];
+  const n = BigInt(prefix + body);
+  return wrap(neg ? -n : n, mode);
+}
+
+// DEC shows the value itself; the other radixes show the word's bits.
+export function formatInteger(n: bigint, mode: IntegerMode): string {
+  const v = wrap(n, mode);
+  if (mode.radix === 10) return v.toString();
+  return bitPattern(v, mode).toString(mode.radix).toUpperCase();
+}
+
+// Would typing this text still fit in the word?
+export function fitsWord(text: string, mode: IntegerMode): boolean {
+  const body = text.startsWith("-") ? text.slice(1) : text;
+  if (!body) return true;
+  const prefix = { 16: "0x", 10: "", 8: "0o", 2: "0b" }[mode.radix];
+  return BigInt(prefix + body) <= mask(mode.bits);
+}
+
+function integerOperand(d: Decimal): bigint {
+  if (!isInteger(d)) throw new CalcError("Domain error");
+  return truncate(d);
+}
+
+// Bitwise ops work on the word's bit pattern. Outside programmer mode there
+// is no word, so operands just need to be integers.
+export function applyBitOp(
+  a: Decimal,
+  b: Decimal,
+  op: BitOp,
+  mode: IntegerMode | null,
+): Decimal {
+  const x = integerOperand(a);
+  const y = integerOperand(b);
+  let out: bigint;
+  switch (op) {
+    case "AND":
+      out = x & y;
+      break;
+    case "OR":
+      out = x | y;
+      break;
+    case "XOR":
+      out = x ^ y;
+      break;
+    case "<<":
+    case ">>": {
+      if (y < 0n || y > 4096n) throw new CalcError("Domain error");
+      // Unsigned words shift in zeros; signed ones keep the sign bit
+      out = op === "<<" ? x << y : x >> y;
+      break;
+    }
+  }
+  return integerToDecimal(mode ? wrap(out, mode) : out);
+}
+
+export function bitNot(d: Decimal, mode: IntegerMode | null): Decimal {
+  const x = integerOperand(d);
+  return integerToDecimal(mode ? wrap(~x, mode) : ~x);
+}
+
+export function flipBit(d: Decimal, bit: number, mode: IntegerMode): Decimal {
+  const x = bitPattern(wrap(truncate(d), mode), mode);
+  return integerToDecimal(wrap(x ^ (1n << BigInt(bit)), mode));
+}
@@ -0,0 +1,695 @@
+import {
+  evaluateTokens,
+  matchingParen,
+  needsOperand,
+  num,
+  openParens,
+  opToken,
+  previewTokens,
+  Token,
+  tokensToString,
+} from "./expression";
+import {
+  add,
+  Decimal,
+  DecimalContext,
+  defaultContext,
+  isZero,
+  negate,
+  parseDecimal,
+  roundSignificant,
+  scaleBy10,
+  subtract,
+} from "./decimal";
+import { emptyMemory, MemoryBank, VarName } from "./memory";
+import { CalcContext, ERROR_DISPLAY, formatNumber, Op, toDecimal } from "./ops";
+import {
+  bitNot,
+  fitsWord,
+  flipBit,
+  IntegerMode,
+  isDigitForRadix,
+} from "./programmer";
+import { AngleUnit, applyFunction, E, PI, UnaryFn } from "./scientific";
+
+// "expression" keeps the whole input and honours precedence and parens;
+// "immediate" runs each operation as soon as the next one is entered.
+export type CalcMode = "expression" | "immediate";
+
+export type State = {
+  mode: CalcMode;
+  tokens: Token[]; // committed part of the expression (not the entry being typed)
+  display: string; // what you see
+  entering: boolean; // are we typing a new number?
+  justEvaluated: boolean; // last key was '='
+  repeat: { op: Op; operand: string } | null; // what a bare '=' applies again
+  context: CalcContext; // precision, rounding and the programmer-mode word
+  angle: AngleUnit; // for trig functions
+  memory: MemoryBank["memory"]; // M register, survives CLEAR
+  vars: MemoryBank["vars"]; // named slots A–F, survive CLEAR
+  // set by each '=' that ran an expression, for the history tape
+  evaluated: { expression: string; tokens: Token[]; result: string } | null;
+  undo: Snapshot[];
+  redo: Snapshot[];
+};
+
+// The part of the state that undo/redo steps through. Memory, variables and
+// settings stay put.
+type Snapshot = Pick<
+  State,
+  "tokens" | "display" | "entering" | "justEvaluated" | "repeat"
+>;
+
+const MAX_UNDO = 50;
+
+export type Action =
+  | { type: "DIGIT"; digit: string }
+  | { type: "DOT" }
+  | { type: "CLEAR" }
+  | { type: "CLEAR_ENTRY" }
+  | { type: "DELETE" }
+  | { type: "UNDO" }
+  | { type: "REDO" }
+  | { type: "TOGGLE_SIGN" }
+  | { type: "PERCENT" }
+  | { type: "FUNC"; fn: UnaryFn }
+  | { type: "CONSTANT"; name: "pi" | "e" }
+  | { type: "EE" }
+  | { type: "OP"; op: Op }
+  | { type: "PAREN_OPEN" }
+  | { type: "PAREN_CLOSE" }
+  | { type: "EQUALS" }
+  | { type: "LOAD_VALUE"; value: string }
+  | { type: "LOAD_EXPRESSION"; tokens: Token[] } // numbers in plain decimal
+  | { type: "SET_MODE"; mode: CalcMode }
+  | { type: "SET_CONTEXT"; context: DecimalContext }
+  | { type: "SET_ANGLE"; angle: AngleUnit }
+  | { type: "SET_INTEGER_MODE"; int: IntegerMode | null }
+  | { type: "BIT_NOT" }
+  | { type: "TOGGLE_BIT"; bit: number }
+  | { type: "MEMORY_CLEAR" }
+  | { type: "MEMORY_RECALL" }
+  | { type: "MEMORY_ADD" }
+  | { type: "MEMORY_SUBTRACT" }
+  | { type: "STORE_VAR"; name: VarName }
+  | { type: "RECALL_VAR"; name: VarName }
+  | { type: "RESTORE_MEMORY"; bank: MemoryBank };
+
+export const initialState: State = {
+  mode: "expression",
+  tokens: [],
+  display: "0",
+  entering: true,
+  justEvaluated: false,
+  repeat: null,
+  context: { ...defaultContext, int: null },
+  angle: "deg",
+  ...emptyMemory,
+  evaluated: null,
+  undo: [],
+  redo: [],
+};
+
+function lastToken(state: State): Token | undefined {
+  return state.tokens[state.tokens.length - 1];
+}
+
+// Tokens with the current entry appended when the expression is waiting on it.
+function committedTokens(state: State): Token[] {
+  if (state.entering || needsOperand(state.tokens)) {
+    return [...state.tokens, num(state.display)];
+  }
+  return state.tokens;
+}
+
+// Display text ↔ value, in programmer mode's radix when it's on. Memory,
+// variables and LOAD_VALUE always carry plain decimal text instead.
+function read(text: string, state: State): Decimal {
+  return toDecimal(text, state.context.int);
+}
+
+function show(d: Decimal, state: State): string {
+  return formatNumber(d, state.context.int);
+}
+
+// Every failure (division by zero, overflow, bad syntax) lands in one error state.
+function evaluate(tokens: Token[], state: State): string {
+  try {
+    return show(evaluateTokens(tokens, state.context), state);
+  } catch {
+    return ERROR_DISPLAY;
+  }
+}
+
+function resetState(state: State): State {
+  return {
+    ...initialState,
+    mode: state.mode,
+    context: state.context,
+    angle: state.angle,
+    memory: state.memory,
+    vars: state.vars,
+    evaluated: state.evaluated,
+    undo: state.undo,
+    redo: state.redo,
+  };
+}
+
+// Starts a new entry, inserting an implicit × after a value such as ")".
+function beginEntry(state: State, display: string): State {
+  const startFresh = state.justEvaluated && state.tokens.length === 0;
+  const tokens =
+    !startFresh && !needsOperand(state.tokens)
+      ? [...state.tokens, opToken("×")]
+      : state.tokens;
+  return { ...state, tokens, display, entering: true, justEvaluated: false };
+}
+
+// Where the value on screen starts in the token list when it's already part
+// of the expression (a closed group, or a number a function produced), else -1.
+function shownValueStart(state: State): number {
+  if (state.entering || needsOperand(state.tokens)) return -1;
+  const end = state.tokens.length - 1;
+  return state.tokens[end].kind === "rparen"
+    ? matchingParen(state.tokens, end)
+    : end;
+}
+
+// Applies `f` to the value on screen. A value inside the expression is
+// replaced there; otherwise the display changes, and `asResult` makes the
+// next digit start a new entry instead of appending to it.
+function applyToShown(
+  state: State,
+  f: (d: Decimal) => Decimal,
+  asResult: boolean,
+): State {
+  try {
+    const start = shownValueStart(state);
+    if (start >= 0) {
+      const value = evaluateTokens(state.tokens.slice(start), state.context);
+      const display = show(f(value), state);
+      return {
+        ...state,
+        tokens: [...state.tokens.slice(0, start), num(display)],
+        display,
+        justEvaluated: false,
+      };
+    }
+    const display = show(f(read(state.display, state)), state);
+    if (asResult) {
+      return { ...state, display, entering: true, justEvaluated: true };
+    }
+    return { ...state, display, justEvaluated: false };
+  } catch {
+    return { ...state, display: ERROR_DISPLAY, entering: false };
+  }
+}
+
+// The number on the display, or null while it shows the error.
+export function displayValue(state: State): Decimal | null {
+  if (state.display === ERROR_DISPLAY) return null;
+  return read(state.display, state);
+}
+
+export function previewValue(state: State): string | null {
+  if (state.tokens.length === 0) return null;
+  const tokens = state.entering
+    ? [...state.tokens, num(state.display)]
+    : state.tokens;
+  const n = previewTokens(tokens, state.context);
+  return n === null ? null : show(n, state);
+}
+
+// The op and right-hand operand at the end of an expression, so a bare '='
+// can repeat them: "2 + 3 =" then "=" gives 8.
+function lastOperation(tokens: Token[], state: State): State["repeat"] {
+  const end = tokens.length - 1;
+  const start =
+    tokens[end]?.kind === "rparen" ? matchingParen(tokens, end) : end;
+  const op = tokens[start - 1];
+  if (start < 1 || op?.kind !== "op") return null;
+  // A minus with nothing before it is a sign, not an operation
+  if (needsOperand(tokens.slice(0, start - 1))) return null;
+  try {
+    const operand = evaluateTokens(tokens.slice(start), state.context);
+    return { op: op.op, operand: formatNumber(operand) };
+  } catch {
+    return null;
+  }
+}
+
+function snapshot(s: State): Snapshot {
+  return {
+    tokens: s.tokens,
+    display: s.display,
+    entering: s.entering,
+    justEvaluated: s.justEvaluated,
+    repeat: s.repeat,
+  };
+}
+
+function sameSnapshot(a: Snapshot, b: Snapshot): boolean {
+  return (
+    a.tokens === b.tokens &&
+    a.display === b.display &&
+    a.entering === b.entering &&
+    a.justEvaluated === b.justEvaluated &&
+    a.repeat === b.repeat
+  );
+}
+
+function isCurrentMode(
+  state: State,
+  action: Extract<Action, { type: "SET_MODE" | "SET_INTEGER_MODE" }>,
+): boolean {
+  if (action.type === "SET_MODE") return action.mode === state.mode;
+  const from = state.context.int;
+  const to = action.int;
+  if (!from || !to) return from === to;
+  return (
+    from.radix === to.radix &&
+    from.bits === to.bits &&
+    from.signed === to.signed
+  );
+}
+
+// Wraps the calculator with undo/redo: every action that changes the
+// calculation pushes the previous snapshot.
+export function reducer(state: State, action: Action): State {
+  if (action.type === "UNDO" || action.type === "REDO") {
+    const [from, to] =
+      action.type === "UNDO"
+        ? (["undo", "redo"] as const)
+        : (["redo", "undo"] as const);
+    const target = state[from][state[from].length - 1];
+    if (!target) return state;
+    return {
+      ...state,
+      ...target,
+      [from]: state[from].slice(0, -1),
+      [to]: [...state[to], snapshot(state)],
+    };
+  }
+
+  // A mode or radix switch changes what the tokens mean, so history can't
+  // cross it. Switching to the one already in use (settings arriving after
+  // launch) leaves what was typed alone.
+  if (action.type === "SET_MODE" || action.type === "SET_INTEGER_MODE") {
+    if (isCurrentMode(state, action)) return state;
+    return { ...calculate(state, action), undo: [], redo: [] };
+  }
+  const next = calculate(state, action);
+  if (sameSnapshot(snapshot(state), snapshot(next))) return next;
+  return {
+    ...next,
+    undo: [...state.undo, snapshot(state)].slice(-MAX_UNDO),
+    redo: [],
+  };
+}
+
+function calculate(state: State, action: Action): State {
+  // Out of the error state only through fresh input or a reset
+  if (state.display === ERROR_DISPLAY) {
+    switch (action.type) {
+      case "DIGIT":
+      case "DOT":
+      case "LOAD_VALUE":
+      case "LOAD_EXPRESSION":
+      case "MEMORY_RECALL":
+      case "RECALL_VAR":
+      case "CONSTANT":
+      case "EE":
+      case "CLEAR_ENTRY":
+        return calculate(resetState(state), action);
+      case "CLEAR":
+      case "SET_MODE":
+      case "SET_CONTEXT":
+      case "SET_ANGLE":
+      case "SET_INTEGER_MODE":
+      case "MEMORY_CLEAR":
+      case "RESTORE_MEMORY":
+        break;
+      default:
+        return state;
+    }
+  }
+
+  // Programmer mode works on whole numbers only
+  if (state.context.int) {
+    switch (action.type) {
+      case "DOT":
+      case "EE":
+      case "PERCENT":
+      case "FUNC":
+      case "CONSTANT":
+        return state;
+    }
+  }
+
+  const cur = read(state.display, state);
+
+  switch (action.type) {
+    case "UNDO":
+    case "REDO":
+      // Handled by the undo wrapper in reducer()
+      return state;
+
+    case "CLEAR":
+      return resetState(state);
+
+    case "CLEAR_ENTRY": {
+      // Drops only the value on screen, whether typed or already in the expression
+      const start = shownValueStart(state);
+      return {
+        ...state,
+        tokens: start >= 0 ? state.tokens.slice(0, start) : state.tokens,
+        display: "0",
+        entering: true,
+        justEvaluated: false,
+      };
+    }
+
+    case "DELETE": {
+      if (state.justEvaluated) return state;
+      if (state.entering && state.display !== "0") {
+        const display = state.display.slice(0, -1);
+        return {
+          ...state,
+          display: display === "" || display === "-" ? "0" : display,
+        };
+      }
+
+      // Nothing left to erase in the entry: step back through the expression
+      const tokens = state.tokens.slice(0, -1);
+      if (tokens.length === state.tokens.length) return state;
+      const prev = tokens[tokens.length - 1];
+      if (prev?.kind === "num") {
+        // The number before it becomes editable again
+        return {
+          ...state,
+          tokens: tokens.slice(0, -1),
+          display: prev.text,
+          entering: true,
+        };
+      }
+      return { ...state, tokens, display: "0", entering: false };
+    }
+
+    case "SET_MODE":
+      return { ...resetState(state), mode: action.mode };
+
+    case "SET_CONTEXT":
+      return { ...state, context: { ...state.context, ...action.context } };
+
+    case "SET_INTEGER_MODE": {
+      const from = state.context.int;
+      const to = action.int;
+      // Re-spell every number for the new radix/word (truncating fractions)
+      const convert = (text: string) => formatNumber(toDecimal(text, from), to);
+      return {
+        ...state,
+        tokens: state.tokens.map((t) =>
+          t.kind === "num" ? num(convert(t.text)) : t,
+        ),
+        display:
+          state.display === ERROR_DISPLAY
+            ? state.display
+            : convert(state.display),
+        context: { ...state.context, int: to },
+      };
+    }
+
+    case "BIT_NOT":
+      return applyToShown(state, (d) => bitNot(d, state.context.int), true);
+
+    case "TOGGLE_BIT": {
+      const int = state.context.int;
+      if (!int) return state;
+      return applyToShown(state, (d) => flipBit(d, action.bit, int), true);
+    }
+
+    case "SET_ANGLE":
+      return { ...state, angle: action.angle };
+
+    case "RESTORE_MEMORY":
+      return { ...state, memory: action.bank.memory, vars: action.bank.vars };
+
+    case "MEMORY_CLEAR":
+      return { ...state, memory: null };
+
+    case "MEMORY_ADD":
+    case "MEMORY_SUBTRACT": {
+      const m = toDecimal(state.memory ?? "0");
+      // (memory is plain decimal text whatever radix is on screen)
+      try {
+        const next =
+          action.type === "MEMORY_ADD" ? add(m, cur) : subtract(m, cur);
+        // The value just banked is done; the next digit starts a new entry
+        return { ...state, memory: formatNumber(next), entering: false };
+      } catch {
+        return { ...state, display: ERROR_DISPLAY, entering: false };
+      }
+    }
+
+    case "MEMORY_RECALL":
+      if (state.memory === null) return state;
+      return calculate(state, { type: "LOAD_VALUE", value: state.memory });
+
+    case "STORE_VAR":
+      return {
+        ...state,
+        vars: { ...state.vars, [action.name]: formatNumber(cur) },
+        entering: false,
+      };
+
+    case "RECALL_VAR": {
+      const value = state.vars[action.name];
+      if (value === undefined) return state;
+      return calculate(state, { type: "LOAD_VALUE", value });
+    }
+
+    case "DIGIT": {
+      const int = state.context.int;
+      if (int) {
+        if (!isDigitForRadix(action.digit, int.radix)) return state;
+        const typing = state.entering && !state.justEvaluated;
+        const text =
+          typing && state.display !== "0"
+            ? state.display + action.digit
+            : action.digit;
+        if (!fitsWord(text, int)) return state;
+      } else if (!/^\d$/.test(action.digit)) {
+        return state;
+      }
+
+      if (!state.entering || state.justEvaluated) {
+        return beginEntry(state, action.digit);
+      }
+      // entering current number
+      if (state.display === "0") {
+        return { ...state, display: action.digit, justEvaluated: false };
+      }
+      return {
+        ...state,
+        display: state.display + action.digit,
+        justEvaluated: false,
+      };
+    }
+
+    case "DOT": {
+      if (!state.entering || state.justEvaluated) {
+        return beginEntry(state, "0.");
+      }
+      // No dot in an entry or in its EE exponent once there is one
+      if (/[.e]/i.test(state.display)) return state;
+      return { ...state, display: state.display + ".", justEvaluated: false };
+    }
+
+    case "TOGGLE_SIGN": {
+      if (state.display === "0") return state;
+      if (state.entering && /e/i.test(state.display)) {
+        // During EE entry ± flips the exponent's sign
+        const display = state.display.replace(/e(-?)/i, (_, minus) =>
+          minus ? "e" : "e-",
+        );
+        return { ...state, display, justEvaluated: false };
+      }
+      return applyToShown(state, negate, false);
+    }
+
+    case "PERCENT":
+      // Common mobile behavior: percent turns current entry into /100.
+      return applyToShown(state, (d) => scaleBy10(d, -2), false);
+
+    case "FUNC":
+      return applyToShown(
+        state,
+        (d) => applyFunction(action.fn, d, state.context, state.angle),
+        true,
+      );
+
+    case "CONSTANT": {
+      const exact = parseDecimal(action.name === "pi" ? PI : E)!;
+      const value = roundSignificant(
+        exact,
+        state.context.precision,
+        state.context.rounding,
+      );
+      return calculate(state, {
+        type: "LOAD_VALUE",
+        value: formatNumber(value),
+      });
+    }
+
+    case "EE": {
+      if (!state.entering || state.justEvaluated) {
+        return beginEntry(state, "1e");
+      }
+      if (/e/i.test(state.display)) return state;
+      return { ...state, display: state.display + "e", justEvaluated: false };
+    }
+
+    case "OP": {
+      const last = lastToken(state);
+
+      if (!state.entering && last?.kind === "op") {
+        // Operator pressed twice: the new one replaces the old
+        return {
+          ...state,
+          tokens: [...state.tokens.slice(0, -1), opToken(action.op)],
+        };
+      }
+      if (!state.entering && last?.kind === "lparen") {
+        // Only a leading minus makes sense right after "("
+        if (action.op !== "−") return state;
+        return { ...state, tokens: [...state.tokens, opToken(action.op)] };
+      }
+
+      const tokens = [...committedTokens(state), opToken(action.op)];
+
+      if (state.mode === "immediate") {
+        // Collapse everything entered so far into a single running value
+        const display = evaluate(tokens.slice(0, -1), state);
+        return {
+          ...state,
+          tokens: [num(display), opToken(action.op)],
+          display,
+          entering: false,
+          justEvaluated: false,
+        };
+      }
+
+      return { ...state, tokens, entering: false, justEvaluated: false };
+    }
+
+    case "PAREN_OPEN": {
+      if (state.mode === "immediate") return state;
+      const hasValue =
+        (state.entering && !(state.tokens.length === 0 && isZero(cur))) ||
+        (!state.entering && !needsOperand(state.tokens));
+      // "2(" and ")(" mean multiplication
+      const tokens: Token[] = hasValue
+        ? [...committedTokens(state), opToken("×"), { kind: "lparen" }]
+        : [...state.tokens, { kind: "lparen" }];
+      return {
+        ...state,
+        tokens,
+        display: "0",
+        entering: false,
+        justEvaluated: false,
+      };
+    }
+
+    case "PAREN_CLOSE": {
+      if (openParens(state.tokens) <= 0) return state;
+      if (!state.entering && needsOperand(state.tokens)) return state;
+
+      const tokens: Token[] = [...committedTokens(state), { kind: "rparen" }];
+      const open = matchingParen(tokens, tokens.length - 1);
+      return {
+        ...state,
+        tokens,
+        display: evaluate(tokens.slice(open), state),
+        entering: false,
+        justEvaluated: false,
+      };
+    }
+
+    case "EQUALS": {
+      let tokens: Token[];
+      if (state.tokens.length > 0) {
+        tokens = committedTokens(state);
+      } else if (state.repeat) {
+        tokens = [
+          num(state.display),
+          opToken(state.repeat.op),
+          num(show(toDecimal(state.repeat.operand), state)),
+        ];
+      } else {
+        return { ...state, justEvaluated: true, entering: false };
+      }
+
+      const display = evaluate(tokens, state);
+      return {
+        ...state,
+        tokens: [],
+        display,
+        entering: false,
+        justEvaluated: true,
+        repeat: lastOperation(tokens, state),
+        evaluated: {
+          expression: tokensToString(tokens),
+          // the tape keeps plain decimal so entries can be reused in any radix
+          tokens: tokens.map((t) =>
+            t.kind === "num" ? num(formatNumber(read(t.text, state))) : t,
+          ),
+          result:
+            display === ERROR_DISPLAY
+              ? display
+              : formatNumber(read(display, state)),
+        },
+      };
+    }
+
+    case "LOAD_VALUE": {
+      // Recalled values behave like a result: the next digit starts over
+      const tokens =
+        !state.entering && !needsOperand(state.tokens)
+          ? [...state.tokens, opToken("×")]
+          : state.tokens;
+      return {
+        ...state,
+        tokens,
+        display: show(toDecimal(action.value), state),
+        entering: true,
+        justEvaluated: true,
+      };
+    }
+
+    case "LOAD_EXPRESSION": {
+      // Spell the tape's decimal numbers in the radix on screen
+      const tokens = action.tokens.map((t) =>
+        t.kind === "num" ? num(show(toDecimal(t.text), state)) : t,
+      );
+      const last = tokens[tokens.length - 1];
+      // A trailing number goes back into the entry so it can keep being typed
+      if (last?.kind === "num") {
+        return {
+          ...state,
+          tokens: tokens.slice(0, -1),
+          display: last.text,
+          entering: true,
+          justEvaluated: false,
+        };
+      }
+      const n = previewTokens(tokens, state.context);
+      return {
+        ...state,
+        tokens,
+        display: n === null ? "0" : show(n, state),
+        entering: false,
+        justEvaluated: false,
+      };
+    }
+  }
+}
@@ -0,0 +1,197 @@
+// Scientific functions on top of the decimal layer. Exact where it's cheap
+// (squares, integer powers, square roots, factorials); everything
+// transcendental goes through JS floats and is trimmed to 15 digits so
+// float noise like 3.0000000000000004 doesn't reach the display.
+
+import {
+  add,
+  adjustedExp,
+  CalcError,
+  compare,
+  Decimal,
+  DecimalContext,
+  divide,
+  fromNumber,
+  isInteger,
+  isZero,
+  multiply,
+  negate,
+  ONE,
+  parseDecimal,
+  squareRoot,
+  subtract,
+  toJsNumber,
+  ZERO,
+} from "./decimal";
+
+export type AngleUnit = "deg" | "rad";
+
+export type UnaryFn =
+  | "sin"
+  | "cos"
+  | "tan"
+  | "asin"
+  | "acos"
+  | "atan"
+  | "ln"
+  | "log"
+  | "square"
+  | "sqrt"
+  | "reciprocal"
+  | "factorial";
+
+export const PI = "3.14159265358979323846264338327950288419716939937510";
+export const E = "2.71828182845904523536028747135266249775724709369995";
+
+const MAX_FACTORIAL = 500;
+const MAX_INT_POWER = 10000;
+// Trig results smaller than this are float residue (sin π, cos 90°…)
+const TRIG_EPSILON = 1e-15;
+
+function domainError(): never {
+  throw new CalcError("Domain error");
+}
+
+export function fromFloat(n: number): Decimal {
+  if (!Number.isFinite(n)) throw new CalcError("Overflow");
+  return parseDecimal(n.toPrecision(15)) ?? ZERO;
+}
+
+function integerValue(d: Decimal): bigint {
+  return d.exp >= 0
+    ? d.coef * 10n ** BigInt(d.exp)
+    : d.coef / 10n ** BigInt(-d.exp);
+}
+
+// parseDecimal gives null when the value overflows
+function fromIntegerText(text: string): Decimal {
+  const d = parseDecimal(text);
+  if (!d) throw new CalcError("Overflow");
+  return d;
+}
+
+function factorial(d: Decimal): Decimal {
+  if (!isInteger(d) || d.coef < 0n) domainError();
+  const n = integerValue(d);
+  if (n > BigInt(MAX_FACTORIAL)) throw new CalcError("Overflow");
+  let out = 1n;
+  for (let i = 2n; i <= n; i++) out *= i;
+  return fromIntegerText(out.toString());
+}
+
+const ctxExact: DecimalContext = { precision: 100, rounding: "half-even" };
+
+// Exact angle in degrees reduced to [0, 360), so multiples of 90° can be
+// answered without any float error.
+function reduceDegrees(d: Decimal): Decimal {
+  const full: Decimal = { coef: 360n, exp: 0 };
+  const turns = toJsNumber(d) / 360;
+  let r = subtract(d, multiply(fromNumber(Math.floor(turns)), full, ctxExact));
+  while (compare(r, ZERO) < 0) r = add(r, full);
+  while (compare(r, full) >= 0) r = subtract(r, full);
+  return r;
+}
+
+function trig(fn: "sin" | "cos" | "tan", d: Decimal, angle: AngleUnit) {
+  let radians: number;
+  if (angle === "deg") {
+    const r = reduceDegrees(d);
+    if (isInteger(r) && integerValue(r) % 90n === 0n) {
+      const quadrant = Number(integerValue(r) / 90n);
+      const table = {
+        sin: [0, 1, 0, -1],
+        cos: [1, 0, -1, 0],
+        tan: [0, NaN, 0, NaN],
+      }[fn];
+      const v = table[quadrant];
+      if (Number.isNaN(v)) domainError();
+      return fromNumber(v);
+    }
+    radians = (toJsNumber(r) * Math.PI) / 180;
+  } else {
+    radians = toJsNumber(d);
+  }
+  const v = Math[fn](radians);
+  return fromFloat(Math.abs(v) < TRIG_EPSILON ? 0 : v);
+}
+
+function inverseTrig(
+  fn: "asin" | "acos" | "atan",
+  d: Decimal,
+  angle: AngleUnit,
+) {
+  const x = toJsNumber(d);
+  if (fn !== "atan" && (x < -1 || x > 1)) domainError();
+  const v = Math[fn](x);
+  return fromFloat(angle === "deg" ? (v * 180) / Math.PI : v);
+}
+
+export function applyFunction(
+  fn: UnaryFn,
+  d: Decimal,
+  ctx: DecimalContext,
+  angle: AngleUnit,
+): Decimal {
+  switch (fn) {
+    case "sin":
+    case "cos":
+    case "tan":
+      return trig(fn, d, angle);
+    case "asin":
+    case "acos":
+    case "atan":
+      return inverseTrig(fn, d, angle);
+    case "ln":
+    case "log": {
+      if (d.coef <= 0n) domainError();
+      // Exact powers of ten have exact common logs
+      if (fn === "log" && d.coef === 1n) return fromNumber(d.exp);
+      const x = toJsNumber(d);
+      return fromFloat(fn === "ln" ? Math.log(x) : Math.log10(x));
+    }
+    case "square":
+      return multiply(d, d, ctx);
+    case "sqrt":
+      return squareRoot(d, ctx);
+    case "reciprocal":
+      return divide(ONE, d, ctx);
+    case "factorial":
+      return factorial(d);
+  }
+}
+
+export function power(a: Decimal, b: Decimal, ctx: DecimalContext): Decimal {
+  if (
+    isInteger(b) &&
+    adjustedExp(b) < 5 &&
+    Math.abs(toJsNumber(b)) <= MAX_INT_POWER
+  ) {
+    let n = integerValue(b);
+    const negativeExp = n < 0n;
+    if (negativeExp) n = -n;
+    if (negativeExp && isZero(a)) throw new CalcError("Division by zero");
+    // Square-and-multiply keeps integer powers exact
+    let out = ONE;
+    let base = a;
+    while (n > 0n) {
+      if (n & 1n) out = multiply(out, base, ctx);
+      n >>= 1n;
+      if (n > 0n) base = multiply(base, base, ctx);
+    }
+    return negativeExp ? divide(ONE, out, ctx) : out;
+  }
+  if (a.coef < 0n) domainError();
+  return fromFloat(Math.pow(toJsNumber(a), toJsNumber(b)));
+}
+
+// n-th root of x; odd roots of negative numbers are allowed.
+export function root(x: Decimal, n: Decimal, ctx: DecimalContext): Decimal {
+  if (isZero(n)) domainError();
+  if (compare(n, fromNumber(2)) === 0) return squareRoot(x, ctx);
+  if (x.coef < 0n) {
+    const odd = isInteger(n) && integerValue(n) % 2n !== 0n;
+    if (!odd) domainError();
+    return negate(root(negate(x), n, ctx));
+  }
+  return fromFloat(Math.pow(toJsNumber(x), 1 / toJsNumber(n)));
+}
@@ -0,0 +1,87 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { defaultContext, ROUNDING_MODES, RoundingMode } from "./decimal";
+import {
+  IntegerMode,
+  Radix,
+  RADIXES,
+  WORD_SIZES,
+  WordSize,
+} from "./programmer";
+import { CalcMode } from "./reducer";
+import { AngleUnit } from "./scientific";
+
+const SETTINGS_KEY = "calc_settings_v1";
+
+export const MIN_PRECISION = 4;
+export const MAX_PRECISION = 64;
+
+export type CalcSettings = {
+  mode: CalcMode;
+  precision: number; // significant digits for division
+  rounding: RoundingMode;
+  scientific: boolean; // show the function keys in portrait too
+  angle: AngleUnit;
+  programmer: boolean;
+  radix: Radix;
+  wordSize: WordSize;
+  signed: boolean;
+};
+
+export const defaultSettings: CalcSettings = {
+  mode: "expression",
+  precision: defaultContext.precision,
+  rounding: defaultContext.rounding,
+  scientific: false,
+  angle: "deg",
+  programmer: false,
+  radix: 16,
+  wordSize: 32,
+  signed: true,
+};
+
+// The integer word the reducer should work in, or null outside programmer mode.
+export function integerMode(settings: CalcSettings): IntegerMode | null {
+  if (!settings.programmer) return null;
+  return {
+    radix: settings.radix,
+    bits: settings.wordSize,
+    signed: settings.signed,
+  };
+}
+
+function clampPrecision(n: unknown): number {
+  if (typeof n !== "number" || !Number.isInteger(n)) {
+    return defaultSettings.precision;
+  }
+  return Math.min(MAX_PRECISION, Math.max(MIN_PRECISION, n));
+}
+
+export async function loadSettings(): Promise<CalcSettings> {
+  const raw = await AsyncStorage.getItem(SETTINGS_KEY);
+  if (!raw) return defaultSettings;
+  try {
+    const obj = JSON.parse(raw);
+    return {
+      mode: obj?.mode === "immediate" ? "immediate" : "expression",
+      precision: clampPrecision(obj?.precision),
+      rounding: ROUNDING_MODES.includes(obj?.rounding)
+        ? obj.rounding
+        : defaultSettings.rounding,
+      scientific: obj?.scientific === true,
+      angle: obj?.angle === "rad" ? "rad" : "deg",
+      programmer: obj?.programmer === true,
+      radix: RADIXES.includes(obj?.radix) ? obj.radix : defaultSettings.radix,
+      wordSize: WORD_SIZES.includes(obj?.wordSize)
+        ? obj.wordSize
+        : defaultSettings.wordSize,
+      signed: obj?.signed !== false,
+    };
+  } catch {
+    return defaultSettings;
+  }
+}
+
+export async function saveSettings(settings: CalcSettings) {
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,138 @@
+import {
+  add,
+  Decimal,
+  DecimalContext,
+  divide,
+  multiply,
+  parseDecimal,
+  roundSignificant,
+  subtract,
+  ZERO,
+} from "./decimal";
+
+// Each unit converts to and from its category's base unit. Factors are the
+// exact legal definitions where one exists (1 lb = 0.45359237 kg, …).
+export type Unit = {
+  id: string;
+  label: string;
+  toBase: (v: Decimal, ctx: DecimalContext) => Decimal;
+  fromBase: (v: Decimal, ctx: DecimalContext) => Decimal;
+};
+
+export type UnitCategory = {
+  id: string;
+  label: string;
+  units: Unit[];
+};
+
+function dec(text: string): Decimal {
+  return parseDecimal(text) ?? ZERO;
+}
+
+// base = v × factor
+function linear(id: string, label: string, factor: string): Unit {
+  const f = dec(factor);
+  return {
+    id,
+    label,
+    toBase: (v, ctx) => multiply(v, f, ctx),
+    fromBase: (v, ctx) => divide(v, f, ctx),
+  };
+}
+
+// base = k / v, for fuel economy ↔ consumption
+function reciprocal(
+  id: string,
+  label: string,
+  k: (ctx: DecimalContext) => Decimal,
+): Unit {
+  return {
+    id,
+    label,
+    toBase: (v, ctx) => divide(k(ctx), v, ctx),
+    fromBase: (v, ctx) => divide(k(ctx), v, ctx),
+  };
+}
+
+// L/100km per mpg: 100 km × litres per gallon / km per mile
+function litresPer100km(gallon: string) {
+  return (ctx: DecimalContext) =>
+    divide(multiply(dec("100"), dec(gallon), ctx), dec("1.609344"), ctx);
+}
+
+const fahrenheit: Unit = {
+  id: "f",
+  label: "°F",
+  toBase: (v, ctx) => divide(subtract(v, dec("32")), dec("1.8"), ctx),
+  fromBase: (v, ctx) => add(multiply(v, dec("1.8"), ctx), dec("32")),
+};
+
+export const UNIT_CATEGORIES: UnitCategory[] = [
+  {
+    id: "fuel",
+    label: "Fuel",
+    units: [
+      linear("l100km", "L/100km", "1"),
+      reciprocal("mpg_us", "mpg (US)", litresPer100km("3.785411784")),
+      reciprocal("mpg_uk", "mpg (UK)", litresPer100km("4.54609")),
+    ],
+  },
+  {
+    id: "speed",
+    label: "Speed",
+    units: [linear("kmh", "km/h", "1"), linear("mph", "mph", "1.609344")],
+  },
+  {
+    id: "power",
+    label: "Power",
+    units: [
+      linear("kw", "kW", "1"),
+      linear("hp", "hp", "0.74569987158227022"),
+      linear("ps", "PS", "0.73549875"),
+    ],
+  },
+  {
+    id: "torque",
+    label: "Torque",
+    units: [
+      linear("nm", "N·m", "1"),
+      linear("lbft", "lb·ft", "1.3558179483314004"),
+    ],
+  },
+  {
+    id: "pressure",
+    label: "Pressure",
+    units: [
+      linear("psi", "psi", "6.894757293168361"),
+      linear("bar", "bar", "100"),
+      linear("kpa", "kPa", "1"),
+    ],
+  },
+  {
+    id: "displacement",
+    label: "Displacement",
+    units: [linear("l", "L", "1"), linear("cuin", "cu in", "0.016387064")],
+  },
+  {
+    id: "temperature",
+    label: "Temp",
+    units: [linear("c", "°C", "1"), fahrenheit],
+  },
+  {
+    id: "mass",
+    label: "Mass",
+    units: [linear("kg", "kg", "1"), linear("lb", "lb", "0.45359237")],
+  },
+];
+
+// Throws CalcError (e.g. 0 mpg) like the rest of the calculator.
+export function convert(
+  value: Decimal,
+  from: Unit,
+  to: Unit,
+  ctx: DecimalContext,
+): Decimal {
+  if (from.id === to.id) return value;
+  const out = to.fromBase(from.toBase(value, ctx), ctx);
+  return roundSignificant(out, ctx.precision, ctx.rounding);
+}
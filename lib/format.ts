@@ -0,0 +1,277 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import {
+  adjustedExp,
+  Decimal,
+  decimalToString,
+  parseDecimal,
+  roundPlaces,
+  roundSignificant,
+} from "@/lib/calculator/decimal";
+
+// How numbers are shown to people. Everything inside the calculator stays
+// canonical ("1234.5"); this is only applied at the edges — display, input
+// labels, paste — and is shared with the VIN screen.
+
+const FORMAT_KEY = "number_format_v1";
+
+export type Notation = "auto" | "scientific" | "engineering";
+export type PrecisionMode = "floating" | "fixed";
+
+export const NOTATIONS: Notation[] = ["auto", "scientific", "engineering"];
+// "auto" follows the device
+export const LOCALES = [
+  "auto",
+  "en-US",
+  "en-GB",
+  "de-DE",
+  "fr-FR",
+  "es-ES",
+  "it-IT",
+  "pt-BR",
+  "de-CH",
+];
+
+export const MAX_FIXED_PLACES = 12;
+export const MIN_EXPONENT_THRESHOLD = 6;
+export const MAX_EXPONENT_THRESHOLD = 40;
+
+export type NumberFormatSettings = {
+  locale: string;
+  grouping: boolean;
+  notation: Notation;
+  precision: PrecisionMode;
+  places: number; // digits after the point (or the mantissa's point) when fixed
+  exponentThreshold: number; // auto switches to exponent form at |exponent| ≥ this
+};
+
+export const defaultNumberFormat: NumberFormatSettings = {
+  locale: "auto",
+  grouping: true,
+  notation: "auto",
+  precision: "floating",
+  places: 2,
+  exponentThreshold: 15,
+};
+
+export type Separators = { group: string; decimal: string };
+
+// Settings with the locale's separators worked out.
+export type NumberFormat = NumberFormatSettings & Separators;
+
+export function deviceLocale(): string {
+  try {
+    return Intl.NumberFormat().resolvedOptions().locale;
+  } catch {
+    return "en-US";
+  }
+}
+
+export function separatorsFor(locale: string): Separators {
+  const out: Separators = { group: ",", decimal: "." };
+  try {
+    const tag = locale === "auto" ? deviceLocale() : locale;
+    for (const part of new Intl.NumberFormat(tag).formatToParts(12345.6)) {
+      if (part.type === "group") out.group = part.value;
+      if (part.type === "decimal") out.decimal = part.value;
+    }
+  } catch {
+    // Engines without Intl keep the en-US marks
+  }
+  return out;
+}
+
+export function resolveNumberFormat(
+  settings: NumberFormatSettings,
+): NumberFormat {
+  return { ...settings, ...separatorsFor(settings.locale) };
+}
+
+function groupDigits(int: string, nf: NumberFormat): string {
+  if (!nf.grouping) return int;
+  return int.replace(/\B(?=(\d{3})+$)/g, nf.group);
+}
+
+// Canonical number text as typed ("-1234.50", "2e-") with the locale's marks.
+// Nothing is rounded, so a half-typed entry keeps its trailing zeros.
+export function formatNumberText(text: string, nf: NumberFormat): string {
+  const m = /^([-−]?)(\d*)(\.?)(\d*)(e.*)?$/i.exec(text);
+  if (!m) return text;
+  const [, sign, int, point, frac, exp = ""] = m;
+  return (
+    sign +
+    groupDigits(int, nf) +
+    (point && nf.decimal) +
+    frac +
+    exp.toLowerCase()
+  );
+}
+
+// Digits of d written out in full, without an exponent.
+function plainText(d: Decimal): string {
+  const neg = d.coef < 0n;
+  const digits = (neg ? -d.coef : d.coef).toString();
+  let body: string;
+  if (d.exp >= 0) {
+    body = digits + "0".repeat(d.exp);
+  } else {
+    const point = digits.length + d.exp;
+    body =
+      point > 0
+        ? `${digits.slice(0, point)}.${digits.slice(point)}`
+        : `0.${"0".repeat(-point)}${digits}`;
+  }
+  return neg ? `-${body}` : body;
+}
+
+function padPlaces(text: string, places: number): string {
+  if (places <= 0) return text;
+  const [int, frac = ""] = text.split(".");
+  return `${int}.${frac.padEnd(places, "0")}`;
+}
+
+// 1.200 → 1.2 for floating precision
+function stripZeros(d: Decimal): Decimal {
+  let { coef, exp } = d;
+  while (coef !== 0n && coef % 10n === 0n) {
+    coef /= 10n;
+    exp += 1;
+  }
+  return { coef, exp };
+}
+
+// m × 10^e with e a multiple of `step` (1 for scientific, 3 for engineering)
+function exponentText(d: Decimal, step: number, nf: NumberFormat): string {
+  let value = stripZeros(d);
+  let adj = adjustedExp(value);
+  let e = Math.floor(adj / step) * step;
+  if (nf.precision === "fixed") {
+    // Rounding can carry into a new exponent: 9.999 at 2 places is 1.00e+1
+    value = roundSignificant(value, adj - e + 1 + nf.places, "half-up");
+    adj = adjustedExp(value);
+    e = Math.floor(adj / step) * step;
+  }
+  const mantissa = { coef: value.coef, exp: value.exp - e };
+  const text =
+    nf.precision === "fixed"
+      ? padPlaces(
+          plainText(stripZeros(roundPlaces(mantissa, nf.places, "half-up"))),
+          nf.places,
+        )
+      : plainText(mantissa);
+  return `${formatNumberText(text, nf)}e${e < 0 ? "-" : "+"}${Math.abs(e)}`;
+}
+
+// A computed value, with the user's notation and precision applied.
+export function formatDecimal(d: Decimal, nf: NumberFormat): string {
+  if (d.coef === 0n) {
+    return formatNumberText(
+      nf.precision === "fixed" ? padPlaces("0", nf.places) : "0",
+      nf,
+    );
+  }
+  if (nf.notation === "scientific") return exponentText(d, 1, nf);
+  if (nf.notation === "engineering") return exponentText(d, 3, nf);
+
+  const adj = adjustedExp(d);
+  if (Math.abs(adj) >= nf.exponentThreshold) return exponentText(d, 1, nf);
+  if (nf.precision === "fixed") {
+    const rounded = roundPlaces(d, nf.places, "half-up");
+    return formatNumberText(
+      padPlaces(plainText(stripZeros(rounded)), nf.places),
+      nf,
+    );
+  }
+  return formatNumberText(plainText(stripZeros(d)), nf);
+}
+
+// Canonical text (e.g. from a display or history) → formatted; anything that
+// isn't a number ("Error") comes back unchanged.
+export function formatValueText(text: string, nf: NumberFormat): string {
+  const d = parseDecimal(text);
+  return d ? formatDecimal(d, nf) : text;
+}
+
+// What a person typed or pasted in their locale → canonical text, or null.
+export function parseNumberText(text: string, nf: NumberFormat): string | null {
+  let t = text.trim().replace(/\s/g, "");
+  if (nf.group.trim()) t = t.split(nf.group).join("");
+  t = t.split(nf.decimal).join(".");
+  const d = parseDecimal(t);
+  return d ? decimalToString(d) : null;
+}
+
+// One shared copy so a change in calculator settings shows up on the VIN
+// screen without a reload.
+let current = defaultNumberFormat;
+let loading: Promise<void> | null = null;
+const listeners = new Set<(settings: NumberFormatSettings) => void>();
+
+export function getNumberFormatSettings(): NumberFormatSettings {
+  return current;
+}
+
+export function subscribeNumberFormat(
+  listener: (settings: NumberFormatSettings) => void,
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function publish(next: NumberFormatSettings) {
+  current = next;
+  listeners.forEach((l) => l(next));
+}
+
+function clamp(n: unknown, min: number, max: number, fallback: number) {
+  return typeof n === "number" && Number.isFinite(n)
+    ? Math.min(max, Math.max(min, Math.round(n)))
+    : fallback;
+}
+
+export function loadNumberFormat(): Promise<void> {
+  loading ??= (async () => {
+    try {
+      const raw = await AsyncStorage.getItem(FORMAT_KEY);
+      if (!raw) return;
+      const parsed = JSON.parse(raw);
+      const d = defaultNumberFormat;
+      publish({
+        locale:
+          typeof parsed?.locale === "string" && LOCALES.includes(parsed.locale)
+            ? parsed.locale
+            : d.locale,
+        grouping:
+          typeof parsed?.grouping === "boolean" ? parsed.grouping : d.grouping,
+        notation: NOTATIONS.includes(parsed?.notation)
+          ? parsed.notation
+          : d.notation,
+        precision:
+          parsed?.precision === "fixed" || parsed?.precision === "floating"
+            ? parsed.precision
+            : d.precision,
+        places: clamp(parsed?.places, 0, MAX_FIXED_PLACES, d.places),
+        exponentThreshold: clamp(
+          parsed?.exponentThreshold,
+          MIN_EXPONENT_THRESHOLD,
+          MAX_EXPONENT_THRESHOLD,
+          d.exponentThreshold,
+        ),
+      });
+    } catch {
+      // keep defaults
+    }
+  })();
+  return loading;
+}
+
+export async function saveNumberFormat(next: NumberFormatSettings) {
+  publish(next);
+  try {
+    await AsyncStorage.setItem(FORMAT_KEY, JSON.stringify(next));
+  } catch {
+    // ignore
+  }
+}
@@ -0,0 +1,42 @@
+import { VinCandidate } from "./ocr";
+import { normalizeVin, validateVin, vinCheckDigit } from "./vin";
+import { lookupWmi } from "./wmi";
+
+// Symbologies seen on door-jamb labels, windshield tags and registration
+// papers. expo-camera names them the same way.
+export const VIN_BARCODE_TYPES = [
+  "code39",
+  "code128",
+  "datamatrix",
+  "qr",
+] as const;
+
+// Code 39 VIN labels often prepend an "I" (for "import") that isn't part of
+// the VIN. I never appears in a VIN, so an 18-char token starting with it is
+// safe to trim.
+function stripImportPrefix(token: string): string {
+  return token.length === 18 && token[0] === "I" ? token.slice(1) : token;
+}
+
+// The VIN in a barcode payload, or null if there isn't one. Data Matrix and
+// QR codes can hold more than the VIN ("VIN:…;PLATE:…"), so each token is
+// tried, and one with a valid check digit wins over one without. Barcodes
+// don't misread characters, so nothing is "corrected" the way OCR is.
+export function barcodeCandidate(data: string): VinCandidate | null {
+  const tokens = data
+    .split(/[^A-Za-z0-9]+/)
+    .map(normalizeVin)
+    .map(stripImportPrefix)
+    .filter((t) => t.length === 17 && !validateVin(t).error);
+  if (!tokens.length) return null;
+  const vin = tokens.find((t) => vinCheckDigit(t) === t[8]) ?? tokens[0];
+  return {
+    vin,
+    raw: vin,
+    score: 100,
+    checkDigitOk: vinCheckDigit(vin) === vin[8],
+    knownWmi: lookupWmi(vin) !== null,
+    wholeToken: true,
+    corrections: 0,
+  };
+}
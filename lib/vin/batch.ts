@@ -0,0 +1,180 @@
+import { VpicRecord } from "./fields";
+import { normalizeVin, validateVin } from "./vin";
+
+// vPIC's DecodeVINValuesBatch takes at most 50 VINs per call
+export const BATCH_CHUNK = 50;
+
+// "partial" rows decoded, but vPIC flagged something (its ErrorCode)
+export type BatchStatus = "invalid" | "pending" | "ok" | "partial" | "failed";
+
+export type BatchRow = {
+  id: number;
+  input: string; // as pasted, for rows that don't survive normalizing
+  vin: string;
+  status: BatchStatus;
+  error: string | null; // why it's invalid or failed
+  note: string | null; // vPIC's ErrorText on "partial" rows
+  record: VpicRecord | null;
+};
+
+export type BatchSortKey = "vin" | "make" | "year" | "body";
+
+// A pasted list: VINs one per line, or separated by commas, semicolons,
+// tabs or spaces. Every token counts, so typos show up as invalid rows
+// instead of vanishing.
+export function parseVinList(text: string): string[] {
+  return text
+    .split(/[\s,;]+/)
+    .map((t) => t.replace(/^"|"$/g, ""))
+    .filter(Boolean);
+}
+
+// Cells of one CSV line; quoted cells may hold the delimiter.
+function csvCells(line: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === "," || ch === ";" || ch === "\t") {
+      cells.push(cell.trim());
+      cell = "";
+    } else cell += ch;
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+// The VIN column of a CSV export: the one headed "VIN", else wherever the
+// first VIN-looking cell is. That cell is taken from every row after it,
+// so a mistyped VIN still shows up as an invalid row.
+export function parseVinCsv(text: string): string[] {
+  const rows = text
+    .split(/\r?\n/)
+    .filter((l) => l.trim())
+    .map(csvCells);
+  let start = -1;
+  let col = -1;
+  for (let i = 0; i < rows.length; i++) {
+    const header = rows[i].findIndex((c) => /^vin$/i.test(c));
+    if (header >= 0) {
+      [start, col] = [i + 1, header];
+      break;
+    }
+    const first = rows[i].findIndex((c) => normalizeVin(c).length === 17);
+    if (first >= 0) {
+      [start, col] = [i, first];
+      break;
+    }
+  }
+  if (col < 0) return [];
+  return rows
+    .slice(start)
+    .map((cells) => cells[col] ?? "")
+    .filter(Boolean);
+}
+
+// Valid VINs are decoded once however often they appear; every bad input
+// keeps its own row, so each one shows why it was skipped.
+export function makeBatchRows(inputs: string[]): BatchRow[] {
+  const seen = new Set<string>();
+  const rows: BatchRow[] = [];
+  inputs.forEach((input) => {
+    const vin = normalizeVin(input);
+    const { error } = validateVin(vin);
+    if (vin && !error) {
+      if (seen.has(vin)) return;
+      seen.add(vin);
+    }
+    rows.push({
+      id: rows.length,
+      input,
+      vin,
+      status: error || !vin ? "invalid" : "pending",
+      error: error ?? (vin ? null : "Not a VIN."),
+      note: null,
+      record: null,
+    });
+  });
+  return rows;
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    out.push(items.slice(i, i + size));
+  }
+  return out;
+}
+
+// Merges one chunk's response into the rows it was sent for.
+export function applyBatchResults(
+  rows: BatchRow[],
+  sent: string[],
+  results: VpicRecord[] | Error,
+): BatchRow[] {
+  const byVin = new Map<string, VpicRecord>();
+  if (!(results instanceof Error)) {
+    for (const r of results) if (r.VIN) byVin.set(r.VIN.toUpperCase(), r);
+  }
+  return rows.map((row) => {
+    if (!sent.includes(row.vin)) return row;
+    if (results instanceof Error) {
+      return { ...row, status: "failed", error: results.message };
+    }
+    const record = byVin.get(row.vin);
+    if (!record) {
+      return { ...row, status: "failed", error: "No result returned." };
+    }
+    const clean = !record.ErrorCode || record.ErrorCode.startsWith("0");
+    return {
+      ...row,
+      status: clean ? "ok" : "partial",
+      error: null,
+      note: clean ? null : record.ErrorText || "vPIC decoded it only in part.",
+      record,
+    };
+  });
+}
+
+function sortValue(row: BatchRow, key: BatchSortKey): string {
+  const r = row.record;
+  if (key === "make") return r?.Make ?? "";
+  if (key === "year") return r?.ModelYear ?? "";
+  if (key === "body") return r?.BodyClass ?? "";
+  return row.vin;
+}
+
+// Rows without a value for the key go last either way.
+export function sortBatchRows(
+  rows: BatchRow[],
+  key: BatchSortKey,
+  ascending: boolean,
+): BatchRow[] {
+  return [...rows].sort((a, b) => {
+    const x = sortValue(a, key);
+    const y = sortValue(b, key);
+    if (!x !== !y) return x ? -1 : 1;
+    const c = x.localeCompare(y, undefined, { numeric: true });
+    return ascending ? c : -c;
+  });
+}
+
+// Case-insensitive match on VIN, make, model, year or body class.
+export function filterBatchRows(rows: BatchRow[], query: string): BatchRow[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return rows;
+  return rows.filter((row) => {
+    const r = row.record;
+    return [row.vin, r?.Make, r?.Model, r?.ModelYear, r?.BodyClass].some(
+      (v) => v && v.toLowerCase().includes(q),
+    );
+  });
+}
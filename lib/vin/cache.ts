@@ -0,0 +1,160 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { VpicRecord } from "./fields";
+
+// Full vPIC rows, one storage key per VIN so a big cache never has to be
+// parsed in one go. A small index keeps fetch/use times for TTL and LRU.
+const INDEX_KEY = "vin_cache_index_v1";
+const ENTRY_PREFIX = "vin_cache_v1:";
+const SETTINGS_KEY = "vin_cache_settings_v1";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type CacheSettings = {
+  ttlDays: number; // older entries still show, but refresh in the background
+  maxEntries: number;
+};
+
+export const defaultCacheSettings: CacheSettings = {
+  ttlDays: 30,
+  maxEntries: 100,
+};
+
+export const TTL_CHOICES = [1, 7, 30, 90];
+export const SIZE_CHOICES = [25, 100, 250, 500];
+
+type IndexEntry = { vin: string; fetchedAt: number; usedAt: number };
+
+export type CachedDecode = {
+  vin: string;
+  record: VpicRecord;
+  fetchedAt: number;
+};
+
+function isIndexEntry(x: any): x is IndexEntry {
+  return (
+    typeof x?.vin === "string" &&
+    typeof x?.fetchedAt === "number" &&
+    typeof x?.usedAt === "number"
+  );
+}
+
+async function loadIndex(): Promise<IndexEntry[]> {
+  const raw = await AsyncStorage.getItem(INDEX_KEY);
+  if (!raw) return [];
+  try {
+    const arr = JSON.parse(raw);
+    return Array.isArray(arr) ? arr.filter(isIndexEntry) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function saveIndex(index: IndexEntry[]) {
+  await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(index));
+}
+
+export async function loadCacheSettings(): Promise<CacheSettings> {
+  const raw = await AsyncStorage.getItem(SETTINGS_KEY);
+  if (!raw) return defaultCacheSettings;
+  try {
+    const parsed = JSON.parse(raw);
+    return {
+      ttlDays: TTL_CHOICES.includes(parsed?.ttlDays)
+        ? parsed.ttlDays
+        : defaultCacheSettings.ttlDays,
+      maxEntries: SIZE_CHOICES.includes(parsed?.maxEntries)
+        ? parsed.maxEntries
+        : defaultCacheSettings.maxEntries,
+    };
+  } catch {
+    return defaultCacheSettings;
+  }
+}
+
+export async function saveCacheSettings(settings: CacheSettings) {
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  await evict(await loadIndex(), settings.maxEntries);
+}
+
+// Drops the least recently used entries beyond the limit.
+async function evict(index: IndexEntry[], maxEntries: number) {
+  const sorted = [...index].sort((a, b) => b.usedAt - a.usedAt);
+  const keep = sorted.slice(0, maxEntries);
+  const drop = sorted.slice(maxEntries);
+  if (drop.length) {
+    await AsyncStorage.multiRemove(drop.map((e) => ENTRY_PREFIX + e.vin));
+  }
+  await saveIndex(keep);
+}
+
+// touch marks the entry used for LRU; reads for exports leave it alone.
+export async function getCachedDecode(
+  vin: string,
+  touch = true,
+): Promise<CachedDecode | null> {
+  const index = await loadIndex();
+  const entry = index.find((e) => e.vin === vin);
+  if (!entry) return null;
+
+  const raw = await AsyncStorage.getItem(ENTRY_PREFIX + vin);
+  let record: VpicRecord | null = null;
+  try {
+    record = raw ? JSON.parse(raw) : null;
+  } catch {
+    record = null;
+  }
+  if (!record || typeof record !== "object") {
+    await saveIndex(index.filter((e) => e.vin !== vin));
+    return null;
+  }
+
+  if (touch) {
+    entry.usedAt = Date.now();
+    await saveIndex(index);
+  }
+  return { vin, record, fetchedAt: entry.fetchedAt };
+}
+
+export async function putCachedDecode(
+  vin: string,
+  record: VpicRecord,
+  settings: CacheSettings,
+) {
+  const now = Date.now();
+  await AsyncStorage.setItem(ENTRY_PREFIX + vin, JSON.stringify(record));
+  const index = (await loadIndex()).filter((e) => e.vin !== vin);
+  index.push({ vin, fetchedAt: now, usedAt: now });
+  await evict(index, settings.maxEntries);
+}
+
+export async function clearDecodeCache() {
+  const index = await loadIndex();
+  await AsyncStorage.multiRemove([
+    INDEX_KEY,
+    ...index.map((e) => ENTRY_PREFIX + e.vin),
+  ]);
+}
+
+export async function cachedVinCount(): Promise<number> {
+  return (await loadIndex()).length;
+}
+
+export function isStale(
+  cached: CachedDecode,
+  settings: CacheSettings,
+  now = Date.now(),
+): boolean {
+  return now - cached.fetchedAt > settings.ttlDays * DAY_MS;
+}
+
+// "just now", "5 min old", "3 days old"
+export function cacheAgeLabel(fetchedAt: number, now = Date.now()): string {
+  const minutes = Math.floor((now - fetchedAt) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min old`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} ${hours === 1 ? "hour" : "hours"} old`;
+  const days = Math.floor(hours / 24);
+  return `${days} ${days === 1 ? "day" : "days"} old`;
+}
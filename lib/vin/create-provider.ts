@@ -0,0 +1,9 @@
+import { createFixtureProvider } from "./fixture-provider";
+import { ProviderSettings, VinDecoderProvider } from "./provider";
+import { createVpicProvider } from "./vpic";
+
+export function createProvider(settings: ProviderSettings): VinDecoderProvider {
+  return settings.kind === "fixtures"
+    ? createFixtureProvider()
+    : createVpicProvider(settings);
+}
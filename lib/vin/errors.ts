@@ -0,0 +1,90 @@
+// Why a lookup failed, which decides what the VIN screen suggests next.
+// "cancelled" means a newer lookup replaced this one and is never shown.
+export type LookupErrorKind =
+  "offline" | "timeout" | "server" | "invalid-vin" | "cancelled";
+
+export class LookupError extends Error {
+  constructor(
+    readonly kind: LookupErrorKind,
+    message: string,
+    readonly status: number | null = null, // HTTP status for "server"
+  ) {
+    super(message);
+    this.name = "LookupError";
+  }
+}
+
+export function isLookupError(
+  e: unknown,
+  kind?: LookupErrorKind,
+): e is LookupError {
+  return e instanceof LookupError && (!kind || e.kind === kind);
+}
+
+// Anything else that went wrong (storage, a provider bug) reads as a
+// server problem: retrying is the only thing the user can do about it.
+export function asLookupError(e: unknown): LookupError {
+  if (e instanceof LookupError) return e;
+  const message =
+    e instanceof Error && e.message ? e.message : "Lookup failed.";
+  return new LookupError("server", message);
+}
+
+// Headline and advice for the error box; the error's own message says
+// what actually happened.
+export const LOOKUP_ERROR_HELP: Record<
+  LookupErrorKind,
+  { title: string; hint: string }
+> = {
+  offline: {
+    title: "You’re offline",
+    hint: "We’ll try again as soon as the connection is back.",
+  },
+  timeout: {
+    title: "Lookup timed out",
+    hint: "vPIC can be slow at busy times; a longer timeout usually helps.",
+  },
+  server: {
+    title: "Server error",
+    hint: "The decoder is having trouble. Try again in a minute.",
+  },
+  "invalid-vin": {
+    title: "VIN not recognised",
+    hint: "Check it against the vehicle; one misread character is enough.",
+  },
+  cancelled: { title: "Cancelled", hint: "" },
+};
+
+// Worth another go on their own: the network blipped or the server had a
+// bad moment. Timeouts aren't, since each try already waited the full
+// timeout, and a bad VIN stays bad.
+export function isRetryable(e: unknown): boolean {
+  return (
+    isLookupError(e) &&
+    (e.kind === "offline" || (e.kind === "server" && (e.status ?? 0) >= 500))
+  );
+}
+
+// 500ms, 1s, 2s… with some jitter so many clients don't retry in step.
+export function backoffMs(attempt: number, baseMs = 500): number {
+  return baseMs * 2 ** attempt * (0.8 + Math.random() * 0.4);
+}
+
+// Resolves after `ms`, or rejects as cancelled as soon as `signal` aborts.
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new LookupError("cancelled", "Cancelled."));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    function onAbort() {
+      clearTimeout(timer);
+      reject(new LookupError("cancelled", "Cancelled."));
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
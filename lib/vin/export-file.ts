@@ -0,0 +1,33 @@
+import { File, Paths } from "expo-file-system";
+import * as Print from "expo-print";
+import * as Sharing from "expo-sharing";
+
+// Writes the export to the cache directory and hands it to the share sheet.
+export async function exportTextFile(
+  name: string,
+  content: string,
+  mimeType: string,
+) {
+  const file = new File(Paths.cache, name);
+  file.create({ overwrite: true });
+  file.write(content);
+  await share(file.uri, mimeType);
+}
+
+// Renders the HTML report to a PDF first, then shares that.
+export async function exportPdf(name: string, html: string) {
+  const { uri } = await Print.printToFileAsync({ html });
+  // printToFileAsync picks a random name; give it the report's
+  const file = new File(uri);
+  const named = new File(Paths.cache, name);
+  if (named.exists) named.delete();
+  file.move(named);
+  await share(named.uri, "application/pdf");
+}
+
+async function share(uri: string, mimeType: string) {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing isn’t available on this device.");
+  }
+  await Sharing.shareAsync(uri, { mimeType, dialogTitle: "Export report" });
+}
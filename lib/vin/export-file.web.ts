@@ -0,0 +1,28 @@
+// On web there's no share sheet: every export downloads as a file.
+export async function exportTextFile(
+  name: string,
+  content: string,
+  mimeType: string,
+) {
+  download(name, new Blob([content], { type: mimeType }));
+}
+
+// The browser's own print dialog turns the HTML into a PDF, so we save the
+// printable page rather than render one here.
+export async function exportPdf(name: string, html: string) {
+  download(
+    name.replace(/\.pdf$/, ".html"),
+    new Blob([html], { type: "text/html" }),
+  );
+}
+
+function download(name: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,131 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import type { VpicRecord } from "./fields";
+
+// vPIC variables the user chose to see on the summary cards.
+const PINNED_KEY = "vin_pinned_fields_v1";
+
+export type RecordField = { key: string; label: string; value: string };
+
+export type FieldGroup = { title: string; fields: RecordField[] };
+
+// Sections for the "show all" view, first match wins. vPIC names its
+// variables consistently enough that prefixes cover most of the ~140.
+const GROUPS: { title: string; match: RegExp }[] = [
+  {
+    title: "Vehicle",
+    match:
+      /^(Make|Model|ModelYear|Series\d?|Trim\d?|Manufacturer|BodyClass|BodyCabType|Doors|VehicleType|Note|NCSA.*|DestinationMarket|BasePrice|EntertainmentSystem|SteeringLocation)$/,
+  },
+  {
+    title: "Engine",
+    match:
+      /^(Engine|Displacement|FuelType|FuelInjection|ValveTrain|Turbo|CoolingType|OtherEngineInfo|Cylinder)/,
+  },
+  {
+    title: "Drivetrain",
+    match: /^(DriveType|Transmission|Axle|Brake|TopSpeed)/,
+  },
+  {
+    title: "Driver Assistance",
+    match:
+      /^(AdaptiveCruiseControl|ForwardCollisionWarning|CIB|DynamicBrakeSupport|PedestrianAutomaticEmergencyBraking|LaneDeparture|LaneKeep|LaneCentering|BlindSpot|RearCrossTraffic|RearAutomaticEmergencyBraking|RearVisibilitySystem|ParkAssist|AdaptiveHeadlights|AdaptiveDrivingBeam|SemiautomaticHeadlamp|LowerBeamHeadlamp|DaytimeRunningLight|AutomaticCrashNotification|CAN_AACN|KeylessIgnition|AutoReverseSystem)/,
+  },
+  {
+    title: "Safety",
+    match:
+      /^(AirBag|SeatBelt|Pretensioner|OtherRestraint|ABS|ESC|TractionControl|TPMS|EDR|ActiveSafety)/,
+  },
+  {
+    title: "Dimensions & Weight",
+    match:
+      /^(GVWR|GCWR|CurbWeight|WheelBase|TrackWidth|BedLength|BedType|Wheels|WheelSize|Seats|SeatRows|Windows|TrailerBody|TrailerLength|TrailerType)/,
+  },
+  {
+    title: "Electrification",
+    match: /^(Electrification|Battery|Charger|EVDriveUnit|OtherBattery)/,
+  },
+  { title: "Plant", match: /^Plant/ },
+  {
+    title: "Motorcycle & Bus",
+    match: /^(Motorcycle|CustomMotorcycle|Bus)/,
+  },
+];
+
+// vPIC's own IDs and bookkeeping, which mean nothing to people.
+const HIDDEN =
+  /^(VIN|ErrorCode|ErrorText|AdditionalErrorText|PossibleValues|SuggestedVIN|VehicleDescriptor)$|I[Dd]$/;
+
+// prettier-ignore
+const LABELS: Record<string, string> = {
+  ModelYear: "Model Year",
+  DisplacementL: "Displacement (L)",
+  DisplacementCC: "Displacement (cc)",
+  DisplacementCI: "Displacement (cu in)",
+  EngineHP: "Engine HP",
+  EngineHP_to: "Engine HP (max)",
+  EngineKW: "Engine kW",
+  BatteryKWh: "Battery (kWh)",
+  BatteryKWh_to: "Battery (kWh, max)",
+  BatteryV: "Battery (V)",
+  BatteryA: "Battery (A)",
+  ChargerPowerKW: "Charger Power (kW)",
+  CurbWeightLB: "Curb Weight (lb)",
+  WheelBaseShort: "Wheel Base (in)",
+  CIB: "Crash Imminent Braking",
+  CAN_AACN: "Automatic Crash Notification (CAN)",
+  EDR: "Event Data Recorder",
+};
+
+// "AirBagLocFront" → "Air Bag Loc Front", "GVWR_to" → "GVWR To"
+export function fieldLabel(key: string): string {
+  if (LABELS[key]) return LABELS[key];
+  return key
+    .replace(/_/g, " ")
+    .replace(/([a-z])([A-Z0-9])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .replace(/\b([a-z])/g, (c) => c.toUpperCase());
+}
+
+function groupOf(key: string): string {
+  return GROUPS.find((g) => g.match.test(key))?.title ?? "Other";
+}
+
+// Every non-empty variable, in GROUPS order with "Other" last. A query
+// keeps fields whose label or vPIC name contains it.
+export function groupRecordFields(r: VpicRecord, query = ""): FieldGroup[] {
+  const q = query.trim().toLowerCase();
+  const byTitle = new Map<string, RecordField[]>();
+  for (const [key, raw] of Object.entries(r)) {
+    const value = typeof raw === "string" ? raw.trim() : "";
+    if (!value || value === "Not Applicable" || HIDDEN.test(key)) continue;
+    const label = fieldLabel(key);
+    if (
+      q &&
+      !label.toLowerCase().includes(q) &&
+      !key.toLowerCase().includes(q)
+    ) {
+      continue;
+    }
+    const title = groupOf(key);
+    byTitle.set(title, [...(byTitle.get(title) ?? []), { key, label, value }]);
+  }
+  return [...GROUPS.map((g) => g.title), "Other"]
+    .filter((title) => byTitle.has(title))
+    .map((title) => ({ title, fields: byTitle.get(title)! }));
+}
+
+export async function loadPinnedFields(): Promise<string[]> {
+  const raw = await AsyncStorage.getItem(PINNED_KEY);
+  if (!raw) return [];
+  try {
+    const arr = JSON.parse(raw);
+    return Array.isArray(arr) ? arr.filter((x) => typeof x === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function savePinnedFields(keys: string[]) {
+  await AsyncStorage.setItem(PINNED_KEY, JSON.stringify(keys));
+}
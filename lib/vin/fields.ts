@@ -0,0 +1,64 @@
+import { formatValueText, NumberFormat } from "@/lib/format";
+
+import { fieldLabel } from "./field-groups";
+
+export type VinField = { label: string; value: string };
+
+// One row of vPIC's DecodeVinValuesExtended: every variable as a string,
+// empty when vPIC doesn't know it.
+export type VpicRecord = Record<string, string>;
+
+// Variables with a card of their own, so pinning them would repeat it.
+const SUMMARY_KEYS = [
+  "Make",
+  "Model",
+  "ModelYear",
+  "Trim",
+  "BodyClass",
+  "VehicleType",
+];
+
+export function isSummaryField(key: string): boolean {
+  return SUMMARY_KEYS.includes(key);
+}
+
+// The summary cards shown for a decoded VIN, followed by any vPIC variables
+// the user pinned from the full field list.
+export function summaryFields(
+  r: VpicRecord,
+  format: NumberFormat,
+  pinned: string[] = [],
+): VinField[] {
+  const picked: VinField[] = [
+    { label: "Make", value: r.Make },
+    { label: "Model", value: r.Model },
+    { label: "Year", value: r.ModelYear },
+    { label: "Trim", value: r.Trim },
+    { label: "Body Class", value: r.BodyClass },
+    { label: "Vehicle Type", value: r.VehicleType },
+    {
+      label: "Engine",
+      value: [
+        r.EngineModel,
+        r.DisplacementL && `${formatValueText(r.DisplacementL, format)}L`,
+        r.EngineCylinders && `${r.EngineCylinders} cyl`,
+      ]
+        .filter(Boolean)
+        .join(" • "),
+    },
+    { label: "Fuel", value: r.FuelTypePrimary },
+    {
+      label: "Plant",
+      value: [r.PlantCity, r.PlantState, r.PlantCountry]
+        .filter(Boolean)
+        .join(", "),
+    },
+    ...pinned
+      .filter((key) => !isSummaryField(key))
+      .map((key) => ({ label: fieldLabel(key), value: r[key] })),
+  ].filter((f) => f.value && String(f.value).trim().length > 0);
+
+  return picked.length
+    ? picked
+    : [{ label: "Result", value: "Decoded, but no common fields present." }];
+}
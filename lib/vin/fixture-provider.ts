@@ -0,0 +1,48 @@
+import { LookupError } from "./errors";
+import { VpicRecord } from "./fields";
+import complaintFixtures from "./fixtures/complaints.json";
+import decodeFixtures from "./fixtures/decode.json";
+import recallFixtures from "./fixtures/recalls.json";
+import { VinDecoderProvider } from "./provider";
+import { parseComplaints, parseRecalls, vehicleQueryKey } from "./recalls";
+
+// Canned vPIC rows keyed by VIN (plus recalls and complaints for those
+// vehicles), for development and automated tests without any network.
+// Unknown VINs fail like a lookup would.
+export function createFixtureProvider(
+  fixtures: Record<string, VpicRecord> = decodeFixtures,
+): VinDecoderProvider {
+  return {
+    id: "fixtures",
+    label: "Fixtures",
+    async decode(vin) {
+      const r = fixtures[vin];
+      if (!r) throw new LookupError("invalid-vin", `No fixture for ${vin}.`);
+      return r;
+    },
+    // Like vPIC's batch call, unknown VINs come back as error rows
+    async decodeBatch(vins) {
+      return vins.map(
+        (vin) =>
+          fixtures[vin] ?? {
+            VIN: vin,
+            ErrorCode: "8",
+            ErrorText: `No fixture for ${vin}.`,
+          },
+      );
+    },
+    // Raw NHTSA rows keyed by "MAKE|MODEL|YEAR", parsed like the real thing
+    async recalls(q) {
+      const rows = (recallFixtures as Record<string, unknown[]>)[
+        vehicleQueryKey(q)
+      ];
+      return parseRecalls({ results: rows ?? [] });
+    },
+    async complaints(q) {
+      const rows = (complaintFixtures as Record<string, unknown[]>)[
+        vehicleQueryKey(q)
+      ];
+      return parseComplaints({ results: rows ?? [] });
+    },
+  };
+}
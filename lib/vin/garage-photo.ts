@@ -0,0 +1,24 @@
+import { Directory, File, Paths } from "expo-file-system";
+
+// Camera photos land in the cache directory, which the OS may clear, so a
+// saved vehicle keeps its own copy under documents/garage. Each copy gets
+// a new name, so a replaced photo isn't served from the image cache, and
+// the one it replaces is deleted.
+export function keepGaragePhoto(
+  vin: string,
+  uri: string,
+  previous: string | null,
+): string {
+  const dir = new Directory(Paths.document, "garage");
+  if (!dir.exists) dir.create({ intermediates: true });
+  if (uri.startsWith(dir.uri)) return uri;
+  const target = new File(dir, `${vin}-${Date.now()}.jpg`);
+  new File(uri).copy(target);
+  if (previous?.startsWith(dir.uri)) deleteGaragePhoto(previous);
+  return target.uri;
+}
+
+export function deleteGaragePhoto(uri: string) {
+  const file = new File(uri);
+  if (file.exists) file.delete();
+}
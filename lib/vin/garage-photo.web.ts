@@ -0,0 +1,10 @@
+// The browser has no app documents folder; the photo URI is kept as is.
+export function keepGaragePhoto(
+  vin: string,
+  uri: string,
+  previous: string | null,
+): string {
+  return uri;
+}
+
+export function deleteGaragePhoto(uri: string) {}
@@ -0,0 +1,184 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { VinField, VpicRecord } from "./fields";
+
+// Saved vehicles live apart from the recents list, which only holds the
+// last few VIN strings and drops old ones without asking.
+const GARAGE_KEY = "vin_garage_v1";
+
+export type GarageVehicle = {
+  vin: string;
+  // The decode as it was when saved; offline decodes have no vPIC record
+  record: VpicRecord | null;
+  fields: VinField[];
+  nickname: string;
+  notes: string;
+  tags: string[]; // "customer", "fleet", "auction lot 42"
+  mileage: number | null;
+  photoUri: string | null; // the OCR scan photo, copied somewhere durable
+  savedAt: number;
+  updatedAt: number;
+};
+
+export type GarageSortKey = "updated" | "name" | "year" | "make" | "mileage";
+
+export const GARAGE_SORTS: { key: GarageSortKey; label: string }[] = [
+  { key: "updated", label: "Recent" },
+  { key: "name", label: "Name" },
+  { key: "make", label: "Make" },
+  { key: "year", label: "Year" },
+  { key: "mileage", label: "Mileage" },
+];
+
+// One shared copy so the VIN screen and the Garage tab stay in step.
+let current: GarageVehicle[] = [];
+let loading: Promise<void> | null = null;
+const listeners = new Set<(vehicles: GarageVehicle[]) => void>();
+
+export function getGarage(): GarageVehicle[] {
+  return current;
+}
+
+export function subscribeGarage(
+  listener: (vehicles: GarageVehicle[]) => void,
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function publish(next: GarageVehicle[]) {
+  current = next;
+  listeners.forEach((l) => l(next));
+}
+
+function isVehicle(x: any): x is GarageVehicle {
+  return (
+    typeof x?.vin === "string" &&
+    Array.isArray(x?.fields) &&
+    typeof x?.savedAt === "number"
+  );
+}
+
+function cleanVehicle(x: GarageVehicle): GarageVehicle {
+  return {
+    vin: x.vin,
+    record: x.record && typeof x.record === "object" ? x.record : null,
+    fields: x.fields,
+    nickname: typeof x.nickname === "string" ? x.nickname : "",
+    notes: typeof x.notes === "string" ? x.notes : "",
+    tags: Array.isArray(x.tags)
+      ? x.tags.filter((t) => typeof t === "string")
+      : [],
+    mileage: typeof x.mileage === "number" ? x.mileage : null,
+    photoUri: typeof x.photoUri === "string" ? x.photoUri : null,
+    savedAt: x.savedAt,
+    updatedAt: typeof x.updatedAt === "number" ? x.updatedAt : x.savedAt,
+  };
+}
+
+export function loadGarage(): Promise<void> {
+  loading ??= (async () => {
+    try {
+      const raw = await AsyncStorage.getItem(GARAGE_KEY);
+      if (!raw) return;
+      const arr = JSON.parse(raw);
+      if (Array.isArray(arr)) publish(arr.filter(isVehicle).map(cleanVehicle));
+    } catch {
+      // start empty
+    }
+  })();
+  return loading;
+}
+
+async function persist(next: GarageVehicle[]) {
+  publish(next);
+  await AsyncStorage.setItem(GARAGE_KEY, JSON.stringify(next));
+}
+
+// Adds the vehicle, or replaces the saved one with the same VIN.
+export async function saveVehicle(vehicle: GarageVehicle) {
+  await loadGarage();
+  const next = { ...vehicle, updatedAt: Date.now() };
+  await persist([next, ...current.filter((v) => v.vin !== vehicle.vin)]);
+}
+
+export async function removeVehicle(vin: string) {
+  await loadGarage();
+  await persist(current.filter((v) => v.vin !== vin));
+}
+
+// "fleet, Auction lot 42 ,fleet" → ["fleet", "Auction lot 42"]
+export function parseTags(text: string): string[] {
+  const seen = new Set<string>();
+  return text
+    .split(",")
+    .map((t) => t.trim().replace(/\s+/g, " "))
+    .filter((t) => {
+      const key = t.toLowerCase();
+      if (!t || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+// Nickname if there is one, else year/make/model, else the VIN.
+export function vehicleTitle(v: GarageVehicle): string {
+  if (v.nickname.trim()) return v.nickname.trim();
+  const r = v.record;
+  const name = r
+    ? [r.ModelYear, r.Make, r.Model].filter(Boolean).join(" ")
+    : "";
+  return name || v.vin;
+}
+
+function fieldValue(v: GarageVehicle, vpicKey: string, label: string) {
+  return v.record?.[vpicKey] ?? v.fields.find((f) => f.label === label)?.value;
+}
+
+// Case-insensitive match on VIN, nickname, make, model, notes or a tag.
+export function searchGarage(
+  vehicles: GarageVehicle[],
+  query: string,
+): GarageVehicle[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return vehicles;
+  return vehicles.filter((v) =>
+    [
+      v.vin,
+      v.nickname,
+      v.notes,
+      fieldValue(v, "Make", "Make"),
+      v.record?.Model,
+      fieldValue(v, "ModelYear", "Year"),
+      ...v.tags,
+    ].some((s) => s && s.toLowerCase().includes(q)),
+  );
+}
+
+// Newest first for "updated" and highest first for mileage; the rest A→Z.
+// Vehicles missing the value go last.
+export function sortGarage(
+  vehicles: GarageVehicle[],
+  key: GarageSortKey,
+): GarageVehicle[] {
+  const text = (v: GarageVehicle): string =>
+    key === "name"
+      ? vehicleTitle(v)
+      : key === "make"
+        ? (fieldValue(v, "Make", "Make") ?? "")
+        : key === "year"
+          ? (fieldValue(v, "ModelYear", "Year") ?? "")
+          : "";
+  return [...vehicles].sort((a, b) => {
+    if (key === "updated") return b.updatedAt - a.updatedAt;
+    if (key === "mileage") {
+      return (b.mileage ?? -1) - (a.mileage ?? -1);
+    }
+    const x = text(a);
+    const y = text(b);
+    if (!x !== !y) return x ? -1 : 1;
+    return x.localeCompare(y, undefined, { numeric: true });
+  });
+}
@@ -0,0 +1,148 @@
+import TextRecognition from "@react-native-ml-kit/text-recognition";
+import * as DocumentPicker from "expo-document-picker";
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+import * as ImagePicker from "expo-image-picker";
+
+import { Rect, Size } from "./live-scan";
+import { plausibleCandidates, rankVinCandidates, VinCandidate } from "./ocr";
+
+export type ImportedImage = { uri: string; width: number; height: number };
+
+// A crop as fractions of the image, so it survives the preview being any
+// size. {0, 0, 1, 1} is the whole image.
+export type Crop = Rect;
+
+export type CropHandle = "move" | "tl" | "tr" | "bl" | "br";
+
+export const FULL_CROP: Crop = { left: 0, top: 0, width: 1, height: 1 };
+
+// Small enough for a VIN on a full-page scan, big enough to grab.
+const MIN_CROP = 0.06;
+
+// Re-encodes the picked file so we always have a JPEG we know the size
+// of; HEIC and huge PNG screenshots both come through here.
+async function loadImage(uri: string): Promise<ImportedImage> {
+  const image = await ImageManipulator.manipulate(uri).renderAsync();
+  const { width, height } = image;
+  const saved = await image.saveAsync({
+    format: SaveFormat.JPEG,
+    compress: 0.9,
+  });
+  return { uri: saved.uri, width, height };
+}
+
+export async function pickLibraryImage(): Promise<ImportedImage | null> {
+  const res = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ["images"],
+    quality: 1,
+  });
+  if (res.canceled || !res.assets[0]) return null;
+  return loadImage(res.assets[0].uri);
+}
+
+// For photos that arrived as attachments and were saved to Files
+export async function pickImageFile(): Promise<ImportedImage | null> {
+  const res = await DocumentPicker.getDocumentAsync({
+    type: "image/*",
+    copyToCacheDirectory: true,
+  });
+  if (res.canceled || !res.assets[0]) return null;
+  return loadImage(res.assets[0].uri);
+}
+
+// Registration photos are often taken sideways; OCR reads poorly off-axis.
+export async function rotateImage(
+  image: ImportedImage,
+  degrees: 90 | -90,
+): Promise<ImportedImage> {
+  const rotated = await ImageManipulator.manipulate(image.uri)
+    .rotate(degrees)
+    .renderAsync();
+  const saved = await rotated.saveAsync({
+    format: SaveFormat.JPEG,
+    compress: 0.9,
+  });
+  return { uri: saved.uri, width: rotated.width, height: rotated.height };
+}
+
+export async function cropImage(
+  image: ImportedImage,
+  crop: Crop,
+): Promise<ImportedImage> {
+  const px = cropToPixels(crop, image);
+  const cropped = await ImageManipulator.manipulate(image.uri)
+    .crop(px)
+    .renderAsync();
+  const saved = await cropped.saveAsync({
+    format: SaveFormat.JPEG,
+    compress: 0.9,
+  });
+  return { uri: saved.uri, width: cropped.width, height: cropped.height };
+}
+
+// The same ranking the live scanner uses, on a still image.
+export async function readVinCandidates(uri: string): Promise<VinCandidate[]> {
+  const result = await TextRecognition.recognize(uri);
+  return plausibleCandidates(rankVinCandidates(result.text));
+}
+
+export function cropToPixels(crop: Crop, size: Size) {
+  const originX = Math.round(crop.left * size.width);
+  const originY = Math.round(crop.top * size.height);
+  return {
+    originX,
+    originY,
+    width: Math.max(
+      1,
+      Math.min(size.width - originX, Math.round(crop.width * size.width)),
+    ),
+    height: Math.max(
+      1,
+      Math.min(size.height - originY, Math.round(crop.height * size.height)),
+    ),
+  };
+}
+
+function clamp(x: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, x));
+}
+
+// `start` moved by a drag of (dx, dy), as fractions of the image. "move"
+// slides the whole box; a corner moves that corner and keeps the opposite
+// one pinned. The box always stays inside the image.
+export function dragCrop(
+  start: Crop,
+  handle: CropHandle,
+  dx: number,
+  dy: number,
+): Crop {
+  if (handle === "move") {
+    return {
+      ...start,
+      left: clamp(start.left + dx, 0, 1 - start.width),
+      top: clamp(start.top + dy, 0, 1 - start.height),
+    };
+  }
+  let l = start.left;
+  let t = start.top;
+  let r = start.left + start.width;
+  let b = start.top + start.height;
+  if (handle === "tl" || handle === "bl") l = clamp(l + dx, 0, r - MIN_CROP);
+  if (handle === "tr" || handle === "br") r = clamp(r + dx, l + MIN_CROP, 1);
+  if (handle === "tl" || handle === "tr") t = clamp(t + dy, 0, b - MIN_CROP);
+  if (handle === "bl" || handle === "br") b = clamp(b + dy, t + MIN_CROP, 1);
+  return { left: l, top: t, width: r - l, height: b - t };
+}
+
+// Where an image shown with contentFit "contain" lands inside `view`.
+export function containRect(image: Size, view: Size): Rect {
+  const scale = Math.min(view.width / image.width, view.height / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  return {
+    left: (view.width - width) / 2,
+    top: (view.height - height) / 2,
+    width,
+    height,
+  };
+}
@@ -0,0 +1,24 @@
+import * as Linking from "expo-linking";
+import { Share } from "react-native";
+
+// The in-app route for one vehicle.
+export function vinHref(vin: string) {
+  return { pathname: "/vin/[vin]" as const, params: { vin } };
+}
+
+// rncalculatorrn://vin/… in an app build, the page URL on web.
+export function vinLink(vin: string): string {
+  return Linking.createURL(`/vin/${vin}`);
+}
+
+// Opens the share sheet with a link back to the vehicle. Throws where
+// there's no share sheet (most desktop browsers), so the caller can show
+// the link to copy instead.
+export async function shareVinLink(vin: string, title?: string) {
+  const url = vinLink(vin);
+  await Share.share({
+    title: title ?? vin,
+    message: title ? `${title}\n${url}` : url,
+    url,
+  });
+}
@@ -0,0 +1,99 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { VinCandidate } from "./ocr";
+
+const SCAN_SOURCE_KEY = "vin_scan_source_v1";
+
+export type Rect = { left: number; top: number; width: number; height: number };
+export type Size = { width: number; height: number };
+
+// Where scan mode reads the VIN from. "auto" watches for a barcode first
+// and starts reading text too if none turns up within AUTO_OCR_DELAY_MS.
+export type ScanSource = "auto" | "barcode" | "ocr";
+
+export const SCAN_SOURCES: { key: ScanSource; label: string }[] = [
+  { key: "auto", label: "Auto" },
+  { key: "barcode", label: "Barcode" },
+  { key: "ocr", label: "Text" },
+];
+
+export const AUTO_OCR_DELAY_MS = 3000;
+
+export async function loadScanSource(): Promise<ScanSource> {
+  const raw = await AsyncStorage.getItem(SCAN_SOURCE_KEY);
+  return SCAN_SOURCES.some((s) => s.key === raw) ? (raw as ScanSource) : "auto";
+}
+
+export async function saveScanSource(source: ScanSource) {
+  await AsyncStorage.setItem(SCAN_SOURCE_KEY, source);
+}
+
+// Frames in a row that must read the same VIN before we capture it.
+export const LOCK_FRAMES = 3;
+
+// The best VIN in each recent frame, and how many frames agreed.
+export type ScanLock = {
+  candidate: VinCandidate | null;
+  hits: number;
+};
+
+export const initialScanLock: ScanLock = { candidate: null, hits: 0 };
+
+// Frames are noisy: one frame without a VIN (glare, motion) only costs a
+// hit, while a different VIN starts the count again.
+export function nextScanLock(
+  lock: ScanLock,
+  best: VinCandidate | null,
+): ScanLock {
+  if (!best) {
+    const hits = Math.max(0, lock.hits - 1);
+    return { candidate: hits ? lock.candidate : null, hits };
+  }
+  if (lock.candidate?.vin === best.vin) {
+    return { candidate: best, hits: lock.hits + 1 };
+  }
+  return { candidate: best, hits: 1 };
+}
+
+export function isLocked(lock: ScanLock): boolean {
+  return lock.hits >= LOCK_FRAMES;
+}
+
+// The preview fills the view like resizeMode "cover": scaled up until both
+// sides fit, then cropped equally on the long side. This maps a box in
+// photo pixels to view points.
+export function photoRectToView(r: Rect, photo: Size, view: Size): Rect {
+  const scale = Math.max(view.width / photo.width, view.height / photo.height);
+  const dx = (photo.width * scale - view.width) / 2;
+  const dy = (photo.height * scale - view.height) / 2;
+  return {
+    left: r.left * scale - dx,
+    top: r.top * scale - dy,
+    width: r.width * scale,
+    height: r.height * scale,
+  };
+}
+
+// The guide rectangle: a wide band across the middle, about the shape of
+// a VIN plate or windshield tag.
+export function guideRect(view: Size): Rect {
+  const width = view.width * 0.9;
+  const height = Math.min(view.height * 0.2, width * 0.35);
+  return {
+    left: (view.width - width) / 2,
+    top: (view.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+export function centerInside(r: Rect, outer: Rect): boolean {
+  const x = r.left + r.width / 2;
+  const y = r.top + r.height / 2;
+  return (
+    x >= outer.left &&
+    x <= outer.left + outer.width &&
+    y >= outer.top &&
+    y <= outer.top + outer.height
+  );
+}
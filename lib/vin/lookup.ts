@@ -0,0 +1,97 @@
+import {
+  CacheSettings,
+  getCachedDecode,
+  isStale,
+  putCachedDecode,
+} from "./cache";
+import { asLookupError, isLookupError, LookupError } from "./errors";
+import { VinField, VpicRecord } from "./fields";
+import { decodeVinOffline } from "./offline";
+import { VinDecoderProvider } from "./provider";
+
+// error says why vPIC's answer isn't the one shown, so the screen can
+// offer the fix next to the fallback cards.
+export type VinLookup =
+  | {
+      source: "vpic" | "cache";
+      record: VpicRecord;
+      cachedAt: number | null;
+      error: LookupError | null;
+    }
+  | { source: "offline"; fields: VinField[]; error: LookupError };
+
+// The badge over offline cards, worded for why vPIC didn't answer.
+export function offlineNote(error: LookupError): {
+  title: string;
+  text: string;
+} {
+  switch (error.kind) {
+    case "offline":
+      return {
+        title: "Decoded offline",
+        text: "From the VIN alone. Full details load when you’re back online.",
+      };
+    case "timeout":
+      return {
+        title: "Decoded from the VIN",
+        text: "From the VIN alone; vPIC didn’t answer in time.",
+      };
+    default:
+      return {
+        title: "Decoded from the VIN",
+        text: "From the VIN alone; vPIC couldn’t decode it just now.",
+      };
+  }
+}
+
+export type LookupOptions = {
+  signal?: AbortSignal;
+  // Ask the provider even when the cached entry is still fresh
+  refresh?: boolean;
+  // Gets a cached entry that's about to be refreshed before the provider
+  // is asked, so it can show in the meantime
+  onStale?: (cached: VinLookup) => void;
+};
+
+// One decode with the VIN screen's fallbacks: a fresh cache entry, else
+// the provider, else the stale entry, else what the VIN itself encodes,
+// with the error that sent it there. Throws when there's nothing to show,
+// when vPIC says the VIN is invalid, or when `signal` cancels the lookup.
+export async function lookupVin(
+  provider: VinDecoderProvider,
+  vin: string,
+  settings: CacheSettings,
+  opts: LookupOptions = {},
+): Promise<VinLookup> {
+  const { signal, refresh = false, onStale } = opts;
+  // Fixtures are already local, and shouldn't be masked by real decodes
+  const useCache = provider.id !== "fixtures";
+  const entry = useCache ? await getCachedDecode(vin) : null;
+  if (signal?.aborted) throw new LookupError("cancelled", "Cancelled.");
+  let cached: VinLookup | null = null;
+  if (entry) {
+    cached = {
+      source: "cache",
+      record: entry.record,
+      cachedAt: entry.fetchedAt,
+      error: null,
+    };
+    if (!refresh && !isStale(entry, settings)) return cached;
+    onStale?.(cached);
+  }
+  try {
+    const record = await provider.decode(vin, signal);
+    if (useCache) await putCachedDecode(vin, record, settings);
+    return { source: "vpic", record, cachedAt: null, error: null };
+  } catch (e) {
+    // The WMI table would only paper over vPIC saying the VIN is wrong
+    if (isLookupError(e, "invalid-vin") || isLookupError(e, "cancelled")) {
+      throw e;
+    }
+    const error = asLookupError(e);
+    if (cached) return { ...cached, error };
+    const fields = decodeVinOffline(vin);
+    if (fields.length) return { source: "offline", fields, error };
+    throw error;
+  }
+}
@@ -0,0 +1,156 @@
+import { decodeModelYear, isNorthAmericanVin, vinCheckDigit } from "./vin";
+import { countryOf, lookupWmi } from "./wmi";
+
+// A 17-character reading of some OCR text, after confusion fixes.
+export type VinCandidate = {
+  vin: string;
+  raw: string; // the characters as OCR read them
+  score: number;
+  checkDigitOk: boolean;
+  knownWmi: boolean;
+  wholeToken: boolean; // not cut out of a longer run of text
+  corrections: number;
+};
+
+// I, O and Q never appear in a VIN, so these are always fixed.
+const ALWAYS: Record<string, string> = { I: "1", O: "0", Q: "0" };
+
+// Both sides are legal VIN characters, so these are only tried, and kept
+// when they make the check digit work.
+const EITHER: Record<string, string> = {
+  S: "5",
+  "5": "S",
+  B: "8",
+  "8": "B",
+  L: "1",
+};
+
+// Past this many ambiguous characters we only try one swap at a time,
+// rather than every combination.
+const MAX_COMBINED = 6;
+
+const MAX_CANDIDATES = 5;
+
+// Readings below this are usually sticker junk rather than a VIN.
+const MIN_SCORE = 20;
+
+// Real VINs carry a serial number, so plain words never make the cut,
+// however well some swap happens to fix their check digit.
+const MIN_DIGITS = 4;
+
+// prettier-ignore
+const WEIGHTS = {
+  checkDigit: 50, // a misread rarely keeps the check digit valid
+  knownWmi: 20,
+  country: 5,
+  modelYear: 5,
+  wholeToken: 15,
+  serialDigits: 5, // North American positions 13–17 are numeric
+  forcedFix: -4,
+  optionalFix: -5,
+};
+
+function score(c: Omit<VinCandidate, "score">, forced: number): number {
+  let s = 0;
+  if (c.checkDigitOk) s += WEIGHTS.checkDigit;
+  if (c.knownWmi) s += WEIGHTS.knownWmi;
+  if (countryOf(c.vin)) s += WEIGHTS.country;
+  if (decodeModelYear(c.vin) !== null) s += WEIGHTS.modelYear;
+  if (c.wholeToken) s += WEIGHTS.wholeToken;
+  if (isNorthAmericanVin(c.vin) && /^\d{5}$/.test(c.vin.slice(12))) {
+    s += WEIGHTS.serialDigits;
+  }
+  s += forced * WEIGHTS.forcedFix;
+  s += (c.corrections - forced) * WEIGHTS.optionalFix;
+  return s;
+}
+
+// Every way of applying the optional swaps to `base`, fewest swaps first.
+function variants(base: string): { vin: string; swaps: number }[] {
+  const spots = [...base].flatMap((ch, i) => (EITHER[ch] ? [i] : []));
+  const swap = (idx: number[]) => {
+    const chars = [...base];
+    for (const i of idx) chars[i] = EITHER[chars[i]];
+    return chars.join("");
+  };
+  if (spots.length > MAX_COMBINED) {
+    return [
+      { vin: base, swaps: 0 },
+      ...spots.map((i) => ({ vin: swap([i]), swaps: 1 })),
+    ];
+  }
+  const out: { vin: string; swaps: number }[] = [];
+  for (let mask = 0; mask < 1 << spots.length; mask++) {
+    const idx = spots.filter((_, b) => mask & (1 << b));
+    out.push({ vin: swap(idx), swaps: idx.length });
+  }
+  return out.sort((a, b) => a.swaps - b.swaps);
+}
+
+// The best reading of one 17-character window.
+function readWindow(raw: string, wholeToken: boolean): VinCandidate | null {
+  if ((raw.match(/\d/g)?.length ?? 0) < MIN_DIGITS) return null;
+  let forced = 0;
+  const base = [...raw]
+    .map((ch) => {
+      if (!ALWAYS[ch]) return ch;
+      forced++;
+      return ALWAYS[ch];
+    })
+    .join("");
+
+  let best: VinCandidate | null = null;
+  for (const { vin, swaps } of variants(base)) {
+    const c = {
+      vin,
+      raw,
+      checkDigitOk: vinCheckDigit(vin) === vin[8],
+      knownWmi: lookupWmi(vin) !== null,
+      wholeToken,
+      corrections: forced + swaps,
+    };
+    const candidate = { ...c, score: score(c, forced) };
+    if (!best || candidate.score > best.score) best = candidate;
+  }
+  return best;
+}
+
+// Ranked VIN readings found in OCR text, best first. OCR often splits a
+// VIN with spaces or glues it to a label ("VIN:1HG…"), so every 17-char
+// window of each line is read, and windows that line up with whole words
+// score higher.
+export function rankVinCandidates(text: string): VinCandidate[] {
+  const byVin = new Map<string, VinCandidate>();
+  for (const line of text.toUpperCase().split(/\n/)) {
+    const tokens = line.split(/[^A-Z0-9]+/).filter(Boolean);
+    const joined = tokens.join("");
+    // Where each token starts and ends in `joined`
+    const starts = new Set<number>();
+    const ends = new Set<number>();
+    let pos = 0;
+    for (const t of tokens) {
+      starts.add(pos);
+      pos += t.length;
+      ends.add(pos);
+    }
+    for (let i = 0; i + 17 <= joined.length; i++) {
+      const whole = starts.has(i) && ends.has(i + 17);
+      const c = readWindow(joined.slice(i, i + 17), whole);
+      if (!c || c.score < MIN_SCORE) continue;
+      const prev = byVin.get(c.vin);
+      if (!prev || c.score > prev.score) byVin.set(c.vin, c);
+    }
+  }
+  return [...byVin.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CANDIDATES);
+}
+
+// Candidates close enough to the best that we shouldn't pick for the user.
+export function plausibleCandidates(ranked: VinCandidate[]): VinCandidate[] {
+  if (!ranked.length) return [];
+  const [best] = ranked;
+  return ranked.filter(
+    (c) => c === best || c.score >= best.score - WEIGHTS.wholeToken,
+  );
+}
@@ -0,0 +1,32 @@
+import { VinField } from "./fields";
+import { decodeModelYear } from "./vin";
+import { countryOf, lookupWmi, regionOf } from "./wmi";
+
+// What the VIN itself tells us without vPIC: make and vehicle type from the
+// WMI (positions 1–3), where it was built, the model year (position 10) and
+// the plant code (position 11). Plant codes are per manufacturer, so we can
+// only show the letter.
+export function decodeVinOffline(v: string): VinField[] {
+  const wmi = lookupWmi(v);
+  const year = decodeModelYear(v);
+  const region = regionOf(v);
+  const country = countryOf(v);
+
+  const fields: VinField[] = [
+    { label: "Make", value: wmi?.make ?? "" },
+    { label: "Year", value: year === null ? "" : String(year) },
+    { label: "Vehicle Type", value: wmi?.vehicleType ?? "" },
+    {
+      label: "Built in",
+      value: country && region ? `${country} (${region})` : (region ?? ""),
+    },
+    { label: "Plant Code", value: v[10] ?? "" },
+    {
+      label: "Manufacturer ID",
+      // A 9 in position 3 marks a small maker; positions 12–14 finish its ID
+      value:
+        v[2] === "9" ? `${v.slice(0, 3)}-${v.slice(11, 14)}` : v.slice(0, 3),
+    },
+  ];
+  return fields.filter((f) => f.value);
+}
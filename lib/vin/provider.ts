@@ -0,0 +1,112 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { VpicRecord } from "./fields";
+import { Complaint, Recall, VehicleQuery } from "./recalls";
+
+// Where decoded vehicle data comes from. The VIN screen only talks to this
+// interface, so vPIC, a local stand-in server and canned fixtures are
+// interchangeable at runtime.
+export interface VinDecoderProvider {
+  id: ProviderKind;
+  label: string;
+  // One vPIC-shaped row (DecodeVinValuesExtended) for the VIN. Like the
+  // calls below, fails with a LookupError, and aborting `signal` fails it
+  // as "cancelled".
+  decode(vin: string, signal?: AbortSignal): Promise<VpicRecord>;
+  // Rows for several VINs in one request, in any order; match on VIN
+  decodeBatch(vins: string[], signal?: AbortSignal): Promise<VpicRecord[]>;
+  // Recall campaigns and owner complaints for a decoded make/model/year
+  recalls(q: VehicleQuery, signal?: AbortSignal): Promise<Recall[]>;
+  complaints(q: VehicleQuery, signal?: AbortSignal): Promise<Complaint[]>;
+}
+
+export type ProviderKind = "vpic" | "fixtures";
+
+export type ProviderSettings = {
+  kind: ProviderKind;
+  baseUrl: string; // vPIC or anything that answers like it
+  safetyBaseUrl: string; // NHTSA's recalls/complaints API, on another host
+  headers: Record<string, string>;
+  timeoutMs: number; // per attempt
+  retries: number; // extra attempts after network and 5xx failures
+};
+
+export const VPIC_BASE_URL = "https://vpic.nhtsa.dot.gov/api";
+export const SAFETY_BASE_URL = "https://api.nhtsa.gov";
+
+export const defaultProviderSettings: ProviderSettings = {
+  kind: "vpic",
+  baseUrl: VPIC_BASE_URL,
+  safetyBaseUrl: SAFETY_BASE_URL,
+  headers: {},
+  timeoutMs: 15000,
+  retries: 2,
+};
+
+export const TIMEOUT_CHOICES = [5000, 15000, 30000];
+export const RETRY_CHOICES = [0, 1, 2, 3];
+
+const PROVIDER_KEY = "vin_provider_v1";
+
+export async function loadProviderSettings(): Promise<ProviderSettings> {
+  const raw = await AsyncStorage.getItem(PROVIDER_KEY);
+  if (!raw) return defaultProviderSettings;
+  try {
+    const parsed = JSON.parse(raw);
+    const d = defaultProviderSettings;
+    const headers =
+      parsed?.headers && typeof parsed.headers === "object"
+        ? Object.fromEntries(
+            Object.entries(parsed.headers).filter(
+              ([, v]) => typeof v === "string",
+            ),
+          )
+        : d.headers;
+    return {
+      kind:
+        parsed?.kind === "vpic" || parsed?.kind === "fixtures"
+          ? parsed.kind
+          : d.kind,
+      baseUrl:
+        typeof parsed?.baseUrl === "string" && parsed.baseUrl
+          ? parsed.baseUrl
+          : d.baseUrl,
+      safetyBaseUrl:
+        typeof parsed?.safetyBaseUrl === "string" && parsed.safetyBaseUrl
+          ? parsed.safetyBaseUrl
+          : d.safetyBaseUrl,
+      headers: headers as Record<string, string>,
+      timeoutMs:
+        typeof parsed?.timeoutMs === "number" && parsed.timeoutMs > 0
+          ? parsed.timeoutMs
+          : d.timeoutMs,
+      retries: RETRY_CHOICES.includes(parsed?.retries)
+        ? parsed.retries
+        : d.retries,
+    };
+  } catch {
+    return defaultProviderSettings;
+  }
+}
+
+export async function saveProviderSettings(settings: ProviderSettings) {
+  await AsyncStorage.setItem(PROVIDER_KEY, JSON.stringify(settings));
+}
+
+// "Name: value" per line ↔ a header map, for editing in a text box.
+export function parseHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const i = line.indexOf(":");
+    if (i <= 0) continue;
+    const name = line.slice(0, i).trim();
+    if (name) headers[name] = line.slice(i + 1).trim();
+  }
+  return headers;
+}
+
+export function headersToText(headers: Record<string, string>): string {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("\n");
+}
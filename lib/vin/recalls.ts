@@ -0,0 +1,110 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { VpicRecord } from "./fields";
+
+// NHTSA's recall and complaint data is keyed by make/model/year, not VIN.
+export type VehicleQuery = { make: string; model: string; modelYear: string };
+
+export type Recall = {
+  campaign: string; // NHTSA campaign number, e.g. "19V182000"
+  reportedAt: string; // as NHTSA sends it, "dd/mm/yyyy"
+  component: string;
+  summary: string;
+  consequence: string;
+  remedy: string;
+  parkIt: boolean; // don't drive it until repaired
+  parkOutside: boolean; // fire risk while parked
+  overTheAir: boolean;
+};
+
+export type Complaint = {
+  id: string; // ODI number
+  filedAt: string;
+  components: string;
+  summary: string;
+  crash: boolean;
+  fire: boolean;
+  injuries: number;
+  deaths: number;
+};
+
+const COUNTS_KEY = "vin_recall_counts_v1";
+
+export function vehicleQueryOf(r: VpicRecord): VehicleQuery | null {
+  const make = r.Make?.trim();
+  const model = r.Model?.trim();
+  const modelYear = r.ModelYear?.trim();
+  return make && model && modelYear ? { make, model, modelYear } : null;
+}
+
+// "HONDA|ACCORD|2003", the key for fixtures and the mock server.
+export function vehicleQueryKey(q: VehicleQuery): string {
+  return [q.make, q.model, q.modelYear].join("|").toUpperCase();
+}
+
+function str(x: any): string {
+  return typeof x === "string" ? x.trim() : x == null ? "" : String(x);
+}
+
+// recallsByVehicle rows use PascalCase, bar the park/OTA flags.
+export function parseRecalls(json: any): Recall[] {
+  const rows = json?.results ?? json?.Results;
+  if (!Array.isArray(rows)) return [];
+  return rows.map((r: any) => ({
+    campaign: str(r.NHTSACampaignNumber),
+    reportedAt: str(r.ReportReceivedDate),
+    component: str(r.Component),
+    summary: str(r.Summary),
+    consequence: str(r.Consequence),
+    remedy: str(r.Remedy),
+    parkIt: r.parkIt === true,
+    parkOutside: r.parkOutSide === true,
+    overTheAir: r.overTheAirUpdate === true,
+  }));
+}
+
+// complaintsByVehicle rows are camelCase.
+export function parseComplaints(json: any): Complaint[] {
+  const rows = json?.results ?? json?.Results;
+  if (!Array.isArray(rows)) return [];
+  return rows.map((c: any) => ({
+    id: str(c.odiNumber),
+    filedAt: str(c.dateComplaintFiled),
+    components: str(c.components),
+    summary: str(c.summary),
+    crash: c.crash === true,
+    fire: c.fire === true,
+    injuries: Number(c.numberOfInjuries) || 0,
+    deaths: Number(c.numberOfDeaths) || 0,
+  }));
+}
+
+// Last known recall count per VIN, for the badges on recent chips.
+export async function loadRecallCounts(): Promise<Record<string, number>> {
+  const raw = await AsyncStorage.getItem(COUNTS_KEY);
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object") return {};
+    return Object.fromEntries(
+      Object.entries(parsed).filter(([, n]) => typeof n === "number"),
+    ) as Record<string, number>;
+  } catch {
+    return {};
+  }
+}
+
+// Only VINs still in the list are kept, so the map can't grow forever.
+export async function saveRecallCount(
+  vin: string,
+  count: number,
+  keep: string[],
+): Promise<Record<string, number>> {
+  const counts = await loadRecallCounts();
+  counts[vin] = count;
+  const next = Object.fromEntries(
+    Object.entries(counts).filter(([v]) => v === vin || keep.includes(v)),
+  );
+  await AsyncStorage.setItem(COUNTS_KEY, JSON.stringify(next));
+  return next;
+}
@@ -0,0 +1,20 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+// VINs decoded lately, newest first, for the chips on the VIN screen.
+const RECENTS_KEY = "vin_recents_v1";
+export const MAX_RECENTS = 10;
+
+export async function loadRecents(): Promise<string[]> {
+  const raw = await AsyncStorage.getItem(RECENTS_KEY);
+  if (!raw) return [];
+  try {
+    const arr = JSON.parse(raw);
+    return Array.isArray(arr) ? arr.filter((x) => typeof x === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function saveRecents(recents: string[]) {
+  await AsyncStorage.setItem(RECENTS_KEY, JSON.stringify(recents));
+}
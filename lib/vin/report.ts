@@ -0,0 +1,162 @@
+import { NumberFormat } from "@/lib/format";
+
+import { getCachedDecode } from "./cache";
+import { summaryFields, VinField, VpicRecord } from "./fields";
+import { decodeVinOffline } from "./offline";
+
+// One vehicle in an export. Offline decodes have no vPIC record, only the
+// fields read from the VIN itself.
+export type ReportEntry = {
+  vin: string;
+  record: VpicRecord | null;
+  fields: VinField[];
+};
+
+export type ReportFormat = "json" | "csv" | "pdf";
+
+export type CsvColumn = { key: string; label: string };
+
+// vPIC variables offered as CSV columns, in vPIC's own names.
+export const CSV_COLUMNS: CsvColumn[] = [
+  { key: "VIN", label: "VIN" },
+  { key: "Make", label: "Make" },
+  { key: "Model", label: "Model" },
+  { key: "ModelYear", label: "Year" },
+  { key: "Trim", label: "Trim" },
+  { key: "BodyClass", label: "Body Class" },
+  { key: "VehicleType", label: "Vehicle Type" },
+  { key: "EngineModel", label: "Engine" },
+  { key: "DisplacementL", label: "Displacement (L)" },
+  { key: "EngineCylinders", label: "Cylinders" },
+  { key: "FuelTypePrimary", label: "Fuel" },
+  { key: "DriveType", label: "Drive" },
+  { key: "PlantCity", label: "Plant City" },
+  { key: "PlantCountry", label: "Plant Country" },
+  { key: "ErrorText", label: "vPIC Notes" },
+];
+
+export const DEFAULT_CSV_COLUMNS = [
+  "VIN",
+  "Make",
+  "Model",
+  "ModelYear",
+  "BodyClass",
+];
+
+// Offline fields under their summary labels, so CSV rows for them aren't
+// empty.
+const OFFLINE_KEYS: Record<string, string> = {
+  Make: "Make",
+  Year: "ModelYear",
+  "Vehicle Type": "VehicleType",
+};
+
+function flatRecord(entry: ReportEntry): VpicRecord {
+  if (entry.record) return { ...entry.record, VIN: entry.vin };
+  const row: VpicRecord = { VIN: entry.vin };
+  for (const f of entry.fields) {
+    const key = OFFLINE_KEYS[f.label];
+    if (key) row[key] = f.value;
+  }
+  return row;
+}
+
+// The full vPIC record for each VIN; a single VIN exports as one object.
+export function reportJson(entries: ReportEntry[]): string {
+  const out = entries.map((e) => ({
+    vin: e.vin,
+    source: e.record ? "vpic" : "offline",
+    record:
+      e.record ?? Object.fromEntries(e.fields.map((f) => [f.label, f.value])),
+  }));
+  return JSON.stringify(out.length === 1 ? out[0] : out, null, 2);
+}
+
+// History entries from the decode cache; VINs that have dropped out of it
+// (or never made it to vPIC) fall back to what the VIN itself says.
+export async function loadReportEntries(
+  vins: string[],
+): Promise<ReportEntry[]> {
+  const entries: ReportEntry[] = [];
+  for (const vin of vins) {
+    const cached = await getCachedDecode(vin, false);
+    entries.push(
+      cached
+        ? { vin, record: cached.record, fields: [] }
+        : { vin, record: null, fields: decodeVinOffline(vin) },
+    );
+  }
+  return entries;
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// RFC 4180: CRLF line ends, quotes doubled inside quoted cells.
+export function reportCsv(entries: ReportEntry[], keys: string[]): string {
+  const columns = CSV_COLUMNS.filter((c) => keys.includes(c.key));
+  const lines = [columns.map((c) => csvCell(c.label)).join(",")];
+  for (const entry of entries) {
+    const row = flatRecord(entry);
+    lines.push(columns.map((c) => csvCell(row[c.key] ?? "")).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// A printable page per report: the summary cards for each VIN as a table.
+export function reportHtml(
+  entries: ReportEntry[],
+  format: NumberFormat,
+  now = new Date(),
+): string {
+  const sections = entries.map((e) => {
+    const fields = e.record ? summaryFields(e.record, format) : e.fields;
+    const rows = fields
+      .map(
+        (f) =>
+          `<tr><th>${escapeHtml(f.label)}</th><td>${escapeHtml(String(f.value))}</td></tr>`,
+      )
+      .join("");
+    const note = e.record ? "" : `<p class="note">Decoded offline</p>`;
+    return `<section><h2>${escapeHtml(e.vin)}</h2>${note}<table>${rows}</table></section>`;
+  });
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>Vehicle report</title>
+<style>
+body { font-family: -apple-system, Helvetica, Arial, sans-serif; margin: 32px; color: #111; }
+h1 { font-size: 22px; margin: 0 0 4px; }
+h2 { font-size: 16px; font-family: Menlo, Consolas, monospace; margin: 24px 0 8px; }
+.meta, .note { color: #666; margin: 0; }
+.note { color: #9a6700; }
+table { border-collapse: collapse; width: 100%; }
+th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e6e6e6; }
+th { width: 30%; color: #555; }
+section { page-break-inside: avoid; }
+</style></head>
+<body><h1>Vehicle report</h1>
+<p class="meta">${entries.length} ${entries.length === 1 ? "vehicle" : "vehicles"} · ${escapeHtml(now.toLocaleString())}</p>
+${sections.join("\n")}
+</body></html>`;
+}
+
+// "1HGCM82633A004352.csv", or "vin-history-2026-10-18.json" for several.
+export function reportFileName(
+  entries: ReportEntry[],
+  ext: string,
+  now = new Date(),
+): string {
+  const base =
+    entries.length === 1
+      ? entries[0].vin
+      : `vin-history-${now.toISOString().slice(0, 10)}`;
+  return `${base}.${ext}`;
+}
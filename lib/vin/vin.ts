@@ -0,0 +1,94 @@
+// VIN rules: 17 chars; letters I, O, Q not allowed. Position 9 is a check
+// digit in North America; position 10 is the model year.
+
+export function normalizeVin(input: string) {
+  return input
+    .trim()
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, "");
+}
+
+// Letter → number for the check digit (49 CFR 565.15). Digits count as
+// themselves.
+// prettier-ignore
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+
+const WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// The check digit position 9 should hold, or null if v can't be a VIN.
+export function vinCheckDigit(v: string): string | null {
+  if (v.length !== 17) return null;
+  let sum = 0;
+  for (let i = 0; i < 17; i++) {
+    const ch = v[i];
+    const value = /\d/.test(ch) ? Number(ch) : TRANSLITERATION[ch];
+    if (value === undefined) return null;
+    sum += value * WEIGHTS[i];
+  }
+  const rem = sum % 11;
+  return rem === 10 ? "X" : String(rem);
+}
+
+// WMIs starting 1–5 are North American (US, Canada, Mexico), where the check
+// digit is mandatory. Elsewhere position 9 is often just another VDS letter.
+export function isNorthAmericanVin(v: string): boolean {
+  return /^[1-5]/.test(v);
+}
+
+// Year codes skip I, O, Q, U, Z and 0, and repeat every 30 years.
+const YEAR_CODES = "ABCDEFGHJKLMNPRSTVWXY123456789";
+
+// Model year from position 10. VINs made to the US rules (a North American
+// WMI, or a valid check digit on an import) use position 7 to tell the cycle
+// apart: a digit means 1980–2009, a letter 2010–2039. Elsewhere we take the
+// latest year that isn't in the future.
+export function decodeModelYear(
+  v: string,
+  now = new Date().getFullYear(),
+): number | null {
+  if (v.length < 10) return null;
+  const index = YEAR_CODES.indexOf(v[9]);
+  if (index < 0) return null;
+  const first = 1980 + index;
+
+  if (v.length === 17 && (isNorthAmericanVin(v) || vinCheckDigit(v) === v[8])) {
+    const year = /\d/.test(v[6]) ? first : first + 30;
+    // A cycle that lands beyond next year's models is a mis-coded position 7
+    return year > now + 1 ? year - 30 : year;
+  }
+  return first + 30 <= now + 1 ? first + 30 : first;
+}
+
+export type VinValidation = {
+  error: string | null; // the VIN can't be right; don't look it up
+  warning: string | null; // worth a look, but lookups still go ahead
+};
+
+export function validateVin(v: string): VinValidation {
+  const ok = { error: null, warning: null };
+  if (v.length === 0) return ok; // no error while empty
+  if (v.length !== 17) {
+    return { error: "VIN must be exactly 17 characters.", warning: null };
+  }
+  if (/[IOQ]/.test(v)) {
+    return { error: "VIN cannot contain I, O, or Q.", warning: null };
+  }
+
+  const expected = vinCheckDigit(v);
+  if (expected === null || expected === v[8]) return ok;
+  if (isNorthAmericanVin(v)) {
+    return {
+      error: `Check digit mismatch, expected ${expected}.`,
+      warning: null,
+    };
+  }
+  // Outside North America the check digit is optional, so only flag it
+  return {
+    error: null,
+    warning: `Check digit doesn’t match (expected ${expected}); not required for non-North American VINs.`,
+  };
+}
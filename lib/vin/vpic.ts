@@ -0,0 +1,183 @@
+import {
+  backoffMs,
+  isLookupError,
+  isRetryable,
+  LookupError,
+  sleep,
+} from "./errors";
+import { VpicRecord } from "./fields";
+import { ProviderSettings, VinDecoderProvider } from "./provider";
+import { parseComplaints, parseRecalls, VehicleQuery } from "./recalls";
+
+// GET (or POST a form to) a vPIC endpoint as JSON. Each attempt gives up
+// after the configured timeout; network and 5xx failures are retried with
+// backoff. Fails with a LookupError.
+export function fetchVpicJson(
+  path: string,
+  settings: ProviderSettings,
+  form?: Record<string, string>,
+  signal?: AbortSignal,
+): Promise<any> {
+  return fetchJson(settings.baseUrl, path, settings, form, signal);
+}
+
+// The same for NHTSA's recalls and complaints API.
+export function fetchSafetyJson(
+  path: string,
+  settings: ProviderSettings,
+  signal?: AbortSignal,
+): Promise<any> {
+  return fetchJson(settings.safetyBaseUrl, path, settings, undefined, signal);
+}
+
+async function fetchJson(
+  baseUrl: string,
+  path: string,
+  settings: ProviderSettings,
+  form?: Record<string, string>,
+  signal?: AbortSignal,
+): Promise<any> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchOnce(baseUrl, path, settings, form, signal);
+    } catch (e) {
+      if (attempt >= settings.retries || !isRetryable(e)) throw e;
+      await sleep(backoffMs(attempt), signal);
+    }
+  }
+}
+
+async function fetchOnce(
+  baseUrl: string,
+  path: string,
+  settings: ProviderSettings,
+  form?: Record<string, string>,
+  signal?: AbortSignal,
+): Promise<any> {
+  if (signal?.aborted) throw new LookupError("cancelled", "Cancelled.");
+  // One controller for both our timeout and the caller's cancel
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, settings.timeoutMs);
+  const cancel = () => controller.abort();
+  signal?.addEventListener("abort", cancel);
+  let status: number | null = null;
+  try {
+    const base = baseUrl.replace(/\/+$/, "");
+    const res = await fetch(`${base}${path}`, {
+      method: form ? "POST" : "GET",
+      headers: form
+        ? {
+            ...settings.headers,
+            "Content-Type": "application/x-www-form-urlencoded",
+          }
+        : settings.headers,
+      body: form ? new URLSearchParams(form).toString() : undefined,
+      signal: controller.signal,
+    });
+    status = res.status;
+    if (!res.ok) {
+      throw new LookupError(
+        "server",
+        `The server answered HTTP ${res.status}.`,
+        res.status,
+      );
+    }
+    return await res.json();
+  } catch (e) {
+    if (timedOut) {
+      throw new LookupError(
+        "timeout",
+        `No answer after ${Math.round(settings.timeoutMs / 1000)}s.`,
+      );
+    }
+    if (signal?.aborted) throw new LookupError("cancelled", "Cancelled.");
+    if (isLookupError(e)) throw e;
+    // fetch only rejects outright when no response came back at all
+    if (status === null) {
+      throw new LookupError("offline", "Couldn’t reach the server.");
+    }
+    throw new LookupError(
+      "server",
+      "The server’s answer wasn’t valid JSON.",
+      status,
+    );
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", cancel);
+  }
+}
+
+// vPIC answers 200 for VINs it can't make sense of, with an ErrorCode
+// ("6 - Incomplete VIN; 7 - Manufacturer is not registered…") and no make.
+function undecodable(r: VpicRecord): string | null {
+  if (r.Make || !r.ErrorCode || r.ErrorCode.startsWith("0")) return null;
+  const first = (r.ErrorText || "vPIC couldn’t decode this VIN.").split(";")[0];
+  return first.replace(/^\d+\s*-\s*/, "").trim();
+}
+
+function vehicleParams(q: VehicleQuery): string {
+  return new URLSearchParams({
+    make: q.make,
+    model: q.model,
+    modelYear: q.modelYear,
+  }).toString();
+}
+
+// NHTSA vPIC, or any server with the same routes (see
+// scripts/mock-vpic-server.js).
+export function createVpicProvider(
+  settings: ProviderSettings,
+): VinDecoderProvider {
+  return {
+    id: "vpic",
+    label: "NHTSA vPIC",
+    async decode(vin, signal) {
+      const json = await fetchVpicJson(
+        `/vehicles/DecodeVinValuesExtended/${encodeURIComponent(vin)}?format=json`,
+        settings,
+        undefined,
+        signal,
+      );
+      const r: VpicRecord | undefined = json?.Results?.[0];
+      if (!r) throw new LookupError("server", "No results returned.");
+      const invalid = undecodable(r);
+      if (invalid) throw new LookupError("invalid-vin", invalid);
+      return r;
+    },
+    async decodeBatch(vins, signal) {
+      const json = await fetchVpicJson(
+        "/vehicles/DecodeVINValuesBatch/",
+        settings,
+        { format: "json", data: vins.join(";") },
+        signal,
+      );
+      const rows = json?.Results;
+      if (!Array.isArray(rows)) {
+        throw new LookupError("server", "No results returned.");
+      }
+      return rows;
+    },
+    async recalls(q, signal) {
+      return parseRecalls(
+        await fetchSafetyJson(
+          `/recalls/recallsByVehicle?${vehicleParams(q)}`,
+          settings,
+          signal,
+        ),
+      );
+    },
+    async complaints(q, signal) {
+      return parseComplaints(
+        await fetchSafetyJson(
+          `/complaints/complaintsByVehicle?${vehicleParams(q)}`,
+          settings,
+          signal,
+        ),
+      );
+    },
+  };
+}
@@ -0,0 +1,278 @@
+// World manufacturer identifiers (VIN positions 1–3) we can name without a
+// network, plus the ISO 3780 country ranges behind the first two characters.
+// Not exhaustive; vPIC stays the source of truth when it's reachable.
+
+export type WmiInfo = { make: string; vehicleType?: string };
+
+const PC = "Passenger car";
+const MPV = "Multipurpose passenger vehicle (MPV)";
+const TRUCK = "Truck";
+const BUS = "Bus";
+const MC = "Motorcycle";
+
+// prettier-ignore
+const WMI_TABLE: Record<string, WmiInfo> = {
+  // United States
+  "1C3": { make: "Chrysler", vehicleType: PC },
+  "1C4": { make: "Chrysler", vehicleType: MPV },
+  "1C6": { make: "Ram", vehicleType: TRUCK },
+  "1FA": { make: "Ford", vehicleType: PC },
+  "1FB": { make: "Ford", vehicleType: BUS },
+  "1FD": { make: "Ford", vehicleType: TRUCK },
+  "1FM": { make: "Ford", vehicleType: MPV },
+  "1FT": { make: "Ford", vehicleType: TRUCK },
+  "1FU": { make: "Freightliner", vehicleType: TRUCK },
+  "1FV": { make: "Freightliner", vehicleType: TRUCK },
+  "1G1": { make: "Chevrolet", vehicleType: PC },
+  "1G4": { make: "Buick", vehicleType: PC },
+  "1G6": { make: "Cadillac", vehicleType: PC },
+  "1GC": { make: "Chevrolet", vehicleType: TRUCK },
+  "1GK": { make: "GMC", vehicleType: MPV },
+  "1GN": { make: "Chevrolet", vehicleType: MPV },
+  "1GT": { make: "GMC", vehicleType: TRUCK },
+  "1GY": { make: "Cadillac", vehicleType: MPV },
+  "1HD": { make: "Harley-Davidson", vehicleType: MC },
+  "1HG": { make: "Honda", vehicleType: PC },
+  "1J4": { make: "Jeep", vehicleType: MPV },
+  "1J8": { make: "Jeep", vehicleType: MPV },
+  "1LN": { make: "Lincoln", vehicleType: PC },
+  "1ME": { make: "Mercury", vehicleType: PC },
+  "1N4": { make: "Nissan", vehicleType: PC },
+  "1N6": { make: "Nissan", vehicleType: TRUCK },
+  "1NX": { make: "Toyota", vehicleType: PC },
+  "1VW": { make: "Volkswagen", vehicleType: PC },
+  "1XK": { make: "Kenworth", vehicleType: TRUCK },
+  "1XP": { make: "Peterbilt", vehicleType: TRUCK },
+  "1YV": { make: "Mazda", vehicleType: PC },
+  "1ZV": { make: "Ford", vehicleType: PC },
+  "4F2": { make: "Mazda", vehicleType: MPV },
+  "4JG": { make: "Mercedes-Benz", vehicleType: MPV },
+  "4S3": { make: "Subaru", vehicleType: PC },
+  "4S4": { make: "Subaru", vehicleType: MPV },
+  "4T1": { make: "Toyota", vehicleType: PC },
+  "4T3": { make: "Toyota", vehicleType: MPV },
+  "4US": { make: "BMW", vehicleType: PC },
+  "4V4": { make: "Volvo Trucks", vehicleType: TRUCK },
+  "5FN": { make: "Honda", vehicleType: MPV },
+  "5J6": { make: "Honda", vehicleType: MPV },
+  "5J8": { make: "Acura", vehicleType: MPV },
+  "5N1": { make: "Nissan", vehicleType: MPV },
+  "5NM": { make: "Hyundai", vehicleType: MPV },
+  "5NP": { make: "Hyundai", vehicleType: PC },
+  "5TD": { make: "Toyota", vehicleType: MPV },
+  "5TF": { make: "Toyota", vehicleType: TRUCK },
+  "5UX": { make: "BMW", vehicleType: MPV },
+  "5XX": { make: "Kia", vehicleType: PC },
+  "5XY": { make: "Kia", vehicleType: MPV },
+  "5YJ": { make: "Tesla", vehicleType: PC },
+  "7FA": { make: "Honda", vehicleType: MPV },
+  "7SA": { make: "Tesla", vehicleType: MPV },
+  // Canada
+  "2C3": { make: "Chrysler", vehicleType: PC },
+  "2C4": { make: "Chrysler", vehicleType: MPV },
+  "2FA": { make: "Ford", vehicleType: PC },
+  "2FM": { make: "Ford", vehicleType: MPV },
+  "2G1": { make: "Chevrolet", vehicleType: PC },
+  "2HG": { make: "Honda", vehicleType: PC },
+  "2HK": { make: "Honda", vehicleType: MPV },
+  "2T1": { make: "Toyota", vehicleType: PC },
+  "2T2": { make: "Lexus", vehicleType: MPV },
+  "2T3": { make: "Toyota", vehicleType: MPV },
+  // Mexico
+  "3C4": { make: "Chrysler", vehicleType: MPV },
+  "3C6": { make: "Ram", vehicleType: TRUCK },
+  "3FA": { make: "Ford", vehicleType: PC },
+  "3G1": { make: "Chevrolet", vehicleType: PC },
+  "3GN": { make: "Chevrolet", vehicleType: MPV },
+  "3KP": { make: "Kia", vehicleType: PC },
+  "3N1": { make: "Nissan", vehicleType: PC },
+  "3VW": { make: "Volkswagen", vehicleType: PC },
+  // Japan
+  "JA3": { make: "Mitsubishi", vehicleType: PC },
+  "JA4": { make: "Mitsubishi", vehicleType: MPV },
+  "JF1": { make: "Subaru", vehicleType: PC },
+  "JF2": { make: "Subaru", vehicleType: MPV },
+  "JH2": { make: "Honda", vehicleType: MC },
+  "JH4": { make: "Acura", vehicleType: PC },
+  "JHL": { make: "Honda", vehicleType: MPV },
+  "JHM": { make: "Honda", vehicleType: PC },
+  "JKA": { make: "Kawasaki", vehicleType: MC },
+  "JM1": { make: "Mazda", vehicleType: PC },
+  "JM3": { make: "Mazda", vehicleType: MPV },
+  "JN1": { make: "Nissan", vehicleType: PC },
+  "JN8": { make: "Nissan", vehicleType: MPV },
+  "JS1": { make: "Suzuki", vehicleType: MC },
+  "JS2": { make: "Suzuki", vehicleType: PC },
+  "JT2": { make: "Toyota", vehicleType: PC },
+  "JTD": { make: "Toyota", vehicleType: PC },
+  "JTE": { make: "Toyota", vehicleType: MPV },
+  "JTH": { make: "Lexus", vehicleType: PC },
+  "JTJ": { make: "Lexus", vehicleType: MPV },
+  "JTN": { make: "Toyota", vehicleType: PC },
+  "JYA": { make: "Yamaha", vehicleType: MC },
+  // Korea
+  "KL1": { make: "Chevrolet", vehicleType: PC },
+  "KM8": { make: "Hyundai", vehicleType: MPV },
+  "KMH": { make: "Hyundai", vehicleType: PC },
+  "KNA": { make: "Kia", vehicleType: PC },
+  "KND": { make: "Kia", vehicleType: MPV },
+  "KPT": { make: "SsangYong", vehicleType: MPV },
+  // China
+  "LBV": { make: "BMW" },
+  "LFV": { make: "Volkswagen" },
+  "LHG": { make: "Honda" },
+  "LRW": { make: "Tesla" },
+  "LSG": { make: "Buick" },
+  "LSV": { make: "Volkswagen" },
+  "LVS": { make: "Ford" },
+  "LYV": { make: "Volvo" },
+  // India, Thailand
+  "MA1": { make: "Mahindra" },
+  "MA3": { make: "Maruti Suzuki", vehicleType: PC },
+  "MAT": { make: "Tata" },
+  "MR0": { make: "Toyota", vehicleType: TRUCK },
+  // Europe
+  "SAJ": { make: "Jaguar", vehicleType: PC },
+  "SAL": { make: "Land Rover", vehicleType: MPV },
+  "SCC": { make: "Lotus", vehicleType: PC },
+  "SCF": { make: "Aston Martin", vehicleType: PC },
+  "SHH": { make: "Honda", vehicleType: PC },
+  "SJN": { make: "Nissan", vehicleType: PC },
+  "TMB": { make: "Škoda", vehicleType: PC },
+  "TRU": { make: "Audi", vehicleType: PC },
+  "VF1": { make: "Renault" },
+  "VF3": { make: "Peugeot" },
+  "VF7": { make: "Citroën" },
+  "VSS": { make: "SEAT", vehicleType: PC },
+  "W0L": { make: "Opel" },
+  "W1K": { make: "Mercedes-Benz", vehicleType: PC },
+  "W1N": { make: "Mercedes-Benz", vehicleType: MPV },
+  "W1V": { make: "Mercedes-Benz", vehicleType: TRUCK },
+  "WA1": { make: "Audi", vehicleType: MPV },
+  "WAU": { make: "Audi", vehicleType: PC },
+  "WBA": { make: "BMW", vehicleType: PC },
+  "WBS": { make: "BMW M", vehicleType: PC },
+  "WBX": { make: "BMW", vehicleType: MPV },
+  "WBY": { make: "BMW i", vehicleType: PC },
+  "WDB": { make: "Mercedes-Benz" },
+  "WDC": { make: "Mercedes-Benz", vehicleType: MPV },
+  "WDD": { make: "Mercedes-Benz", vehicleType: PC },
+  "WF0": { make: "Ford" },
+  "WMA": { make: "MAN", vehicleType: TRUCK },
+  "WME": { make: "smart", vehicleType: PC },
+  "WMW": { make: "MINI", vehicleType: PC },
+  "WP0": { make: "Porsche", vehicleType: PC },
+  "WP1": { make: "Porsche", vehicleType: MPV },
+  "WV1": { make: "Volkswagen", vehicleType: TRUCK },
+  "WV2": { make: "Volkswagen", vehicleType: BUS },
+  "WVG": { make: "Volkswagen", vehicleType: MPV },
+  "WVW": { make: "Volkswagen", vehicleType: PC },
+  "YS2": { make: "Scania", vehicleType: TRUCK },
+  "YS3": { make: "Saab", vehicleType: PC },
+  "YV1": { make: "Volvo", vehicleType: PC },
+  "YV4": { make: "Volvo", vehicleType: MPV },
+  "ZAM": { make: "Maserati", vehicleType: PC },
+  "ZAR": { make: "Alfa Romeo", vehicleType: PC },
+  "ZDM": { make: "Ducati", vehicleType: MC },
+  "ZFA": { make: "Fiat" },
+  "ZFF": { make: "Ferrari", vehicleType: PC },
+  "ZHW": { make: "Lamborghini", vehicleType: PC },
+  // South America, Oceania
+  "8AJ": { make: "Toyota" },
+  "93H": { make: "Honda" },
+  "9BW": { make: "Volkswagen" },
+  "6FP": { make: "Ford" },
+  "6G1": { make: "Holden", vehicleType: PC },
+  "6T1": { make: "Toyota", vehicleType: PC },
+};
+
+export function lookupWmi(v: string): WmiInfo | null {
+  return WMI_TABLE[v.slice(0, 3)] ?? null;
+}
+
+// Second characters run A–Z (no I, O, Q) then 1–9, 0.
+const SEQUENCE = "ABCDEFGHJKLMNPRSTUVWXYZ1234567890";
+
+// [first char, second from, second to, country]
+// prettier-ignore
+const COUNTRY_RANGES: [string, string, string, string][] = [
+  ["1", "A", "0", "United States"],
+  ["4", "A", "0", "United States"],
+  ["5", "A", "0", "United States"],
+  ["2", "A", "0", "Canada"],
+  ["3", "A", "W", "Mexico"],
+  ["7", "F", "0", "United States"],
+  ["7", "A", "E", "New Zealand"],
+  ["6", "A", "W", "Australia"],
+  ["8", "A", "E", "Argentina"],
+  ["8", "F", "K", "Chile"],
+  ["8", "X", "2", "Venezuela"],
+  ["9", "A", "E", "Brazil"],
+  ["9", "F", "K", "Colombia"],
+  ["9", "3", "9", "Brazil"],
+  ["A", "A", "H", "South Africa"],
+  ["J", "A", "0", "Japan"],
+  ["K", "L", "R", "South Korea"],
+  ["L", "A", "0", "China"],
+  ["M", "A", "E", "India"],
+  ["M", "F", "K", "Indonesia"],
+  ["M", "L", "R", "Thailand"],
+  ["N", "L", "R", "Turkey"],
+  ["P", "L", "R", "Malaysia"],
+  ["R", "F", "K", "Taiwan"],
+  ["S", "A", "M", "United Kingdom"],
+  ["S", "N", "T", "Germany"],
+  ["S", "U", "Z", "Poland"],
+  ["T", "A", "H", "Switzerland"],
+  ["T", "J", "P", "Czech Republic"],
+  ["T", "R", "V", "Hungary"],
+  ["T", "W", "1", "Portugal"],
+  ["U", "U", "Z", "Romania"],
+  ["U", "5", "7", "Slovakia"],
+  ["V", "A", "E", "Austria"],
+  ["V", "F", "R", "France"],
+  ["V", "S", "W", "Spain"],
+  ["V", "X", "2", "Serbia"],
+  ["V", "3", "5", "Croatia"],
+  ["W", "A", "0", "Germany"],
+  ["X", "L", "R", "Netherlands"],
+  ["X", "S", "W", "Russia"],
+  ["X", "3", "0", "Russia"],
+  ["Y", "A", "E", "Belgium"],
+  ["Y", "F", "K", "Finland"],
+  ["Y", "S", "W", "Sweden"],
+  ["Y", "6", "0", "Ukraine"],
+  ["Z", "A", "R", "Italy"],
+  ["Z", "X", "2", "Slovenia"],
+];
+
+export function countryOf(v: string): string | null {
+  const second = SEQUENCE.indexOf(v[1]);
+  if (second < 0) return null;
+  for (const [first, from, to, country] of COUNTRY_RANGES) {
+    if (
+      v[0] === first &&
+      second >= SEQUENCE.indexOf(from) &&
+      second <= SEQUENCE.indexOf(to)
+    ) {
+      return country;
+    }
+  }
+  return null;
+}
+
+export function regionOf(v: string): string | null {
+  const c = v[0];
+  if (!c) return null;
+  if (c >= "1" && c <= "5") return "North America";
+  // 7F–70 were reassigned to the US once it ran out of 1, 4 and 5
+  if (c === "7" && SEQUENCE.indexOf(v[1]) >= SEQUENCE.indexOf("F")) {
+    return "North America";
+  }
+  if (c === "6" || c === "7") return "Oceania";
+  if (c === "8" || c === "9" || c === "0") return "South America";
+  if (c >= "A" && c <= "H") return "Africa";
+  if (c >= "J" && c <= "R") return "Asia";
+  if (c >= "S" && c <= "Z") return "Europe";
+  return null;
+}
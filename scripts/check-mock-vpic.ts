@@ -0,0 +1,89 @@
+/**
+ * Starts scripts/mock-vpic-server.js, points the app's vPIC provider at it
+ * and checks what the app parses out of its answers: a decode, then the
+ * recalls and complaints for that vehicle, and nothing for a vehicle the
+ * mock doesn't know.
+ *
+ *   npm run test:mock-vpic
+ */
+
+import assert from "node:assert/strict";
+import { ChildProcess, spawn } from "node:child_process";
+import path from "node:path";
+
+import { defaultProviderSettings } from "../lib/vin/provider";
+import { vehicleQueryOf } from "../lib/vin/recalls";
+import { createVpicProvider } from "../lib/vin/vpic";
+
+// Off the mock's default port, so a copy left running for the app is fine
+const PORT = 8797;
+const VIN = "1HGCM82633A004352";
+
+function startServer(): Promise<ChildProcess> {
+  return new Promise((resolve, reject) => {
+    const server = spawn(process.execPath, [
+      path.join(__dirname, "mock-vpic-server.js"),
+      String(PORT),
+    ]);
+    // It logs once it's listening
+    server.stdout.once("data", () => resolve(server));
+    server.once("error", reject);
+    server.once("exit", (code) =>
+      reject(new Error(`Mock server exited with code ${code}.`)),
+    );
+  });
+}
+
+async function check() {
+  const provider = createVpicProvider({
+    ...defaultProviderSettings,
+    baseUrl: `http://localhost:${PORT}/api`,
+    safetyBaseUrl: `http://localhost:${PORT}`,
+    timeoutMs: 5000,
+    retries: 0,
+  });
+
+  const record = await provider.decode(VIN);
+  const query = vehicleQueryOf(record);
+  assert.ok(query, "the decode names make, model and year");
+  assert.deepEqual(query, {
+    make: "HONDA",
+    model: "Accord",
+    modelYear: "2003",
+  });
+
+  const recalls = await provider.recalls(query);
+  assert.deepEqual(
+    recalls.map((r) => r.campaign),
+    ["19V182000", "04V176000"],
+  );
+  assert.equal(recalls[0].component, "AIR BAGS");
+  assert.equal(recalls[0].reportedAt, "07/03/2019");
+  for (const r of recalls) {
+    assert.ok(r.summary && r.remedy, `${r.campaign} has summary and remedy`);
+  }
+
+  const complaints = await provider.complaints(query);
+  assert.equal(complaints.length, 2);
+  assert.equal(complaints[0].id, "10512345");
+  assert.equal(complaints[0].components, "POWER TRAIN");
+
+  const unknown = { make: "NOBODY", model: "NOTHING", modelYear: "1999" };
+  assert.deepEqual(await provider.recalls(unknown), []);
+  assert.deepEqual(await provider.complaints(unknown), []);
+}
+
+async function main() {
+  const server = await startServer();
+  try {
+    await check();
+    console.log("Mock vPIC: decode, recalls and complaints parse as expected");
+  } finally {
+    server.kill();
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exitCode = 1;
+});
@@ -0,0 +1,145 @@
+#!/usr/bin/env node
+
+/**
+ * A local stand-in for NHTSA vPIC and the recalls/complaints API that
+ * answers from the app's fixtures. Point the VIN screen's base URL at
+ * http://<your LAN IP>:8787/api and its recalls URL at
+ * http://<your LAN IP>:8787 to use it.
+ *
+ *   node scripts/mock-vpic-server.js [port] [--delay=<ms>] [--flaky]
+ *
+ * --delay holds every answer back, to try the app's timeout; --flaky
+ * answers every other request with a 503, to watch it retry.
+ */
+
+const http = require("http");
+const path = require("path");
+
+const args = process.argv.slice(2);
+const port = Number(args.find((a) => /^\d+$/.test(a))) || 8787;
+const delayMs =
+  Number(args.find((a) => a.startsWith("--delay="))?.slice(8)) || 0;
+const flaky = args.includes("--flaky");
+let requestCount = 0;
+const fixtures = path.join(__dirname, "../lib/vin/fixtures");
+const decodeFixtures = require(path.join(fixtures, "decode.json"));
+const recallFixtures = require(path.join(fixtures, "recalls.json"));
+const complaintFixtures = require(path.join(fixtures, "complaints.json"));
+
+function unknownVin(vin) {
+  return {
+    VIN: vin,
+    ErrorCode: "8",
+    ErrorText: "8 - No detailed data available currently (mock)",
+  };
+}
+
+// Same key as vehicleQueryKey in lib/vin/recalls.ts
+function vehicleKey(url) {
+  const q = url.searchParams;
+  return [q.get("make"), q.get("model"), q.get("modelYear")]
+    .join("|")
+    .toUpperCase();
+}
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+  });
+}
+
+// The web build calls from another origin
+const CORS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "*",
+};
+
+function send(res, status, body) {
+  res.writeHead(status, { ...CORS, "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function results(list) {
+  return {
+    Count: list.length,
+    Message: "Results returned successfully (mock)",
+    Results: list,
+  };
+}
+
+const routes = [
+  [
+    /^\/api\/vehicles\/DecodeVinValuesExtended\/([A-Z0-9]+)$/i,
+    (m) => {
+      const vin = m[1].toUpperCase();
+      return [200, results([decodeFixtures[vin] ?? unknownVin(vin)])];
+    },
+  ],
+  [
+    // POST, form body "format=json&data=VIN1;VIN2"
+    /^\/api\/vehicles\/DecodeVINValuesBatch\/?$/i,
+    (m, url, body) => {
+      const data = new URLSearchParams(body).get("data") ?? "";
+      const vins = data
+        .split(";")
+        .map((v) => v.trim().toUpperCase())
+        .filter(Boolean);
+      return [
+        200,
+        results(vins.map((vin) => decodeFixtures[vin] ?? unknownVin(vin))),
+      ];
+    },
+  ],
+  [
+    /^\/recalls\/recallsByVehicle$/i,
+    (m, url) => {
+      const list = recallFixtures[vehicleKey(url)] ?? [];
+      return [
+        200,
+        {
+          Count: list.length,
+          Message: "Results returned successfully",
+          results: list,
+        },
+      ];
+    },
+  ],
+  [
+    /^\/complaints\/complaintsByVehicle$/i,
+    (m, url) => {
+      const list = complaintFixtures[vehicleKey(url)] ?? [];
+      return [
+        200,
+        {
+          count: list.length,
+          message: "Results returned successfully",
+          results: list,
+        },
+      ];
+    },
+  ],
+];
+
+http
+  .createServer(async (req, res) => {
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, CORS);
+      return res.end();
+    }
+    const url = new URL(req.url, `http://localhost:${port}`);
+    const body = req.method === "POST" ? await readBody(req) : "";
+    if (delayMs) await new Promise((r) => setTimeout(r, delayMs));
+    if (flaky && requestCount++ % 2 === 0) {
+      return send(res, 503, { Message: "Flaky mock: try again" });
+    }
+    for (const [pattern, handler] of routes) {
+      const m = pattern.exec(url.pathname);
+      if (m) return send(res, ...handler(m, url, body));
+    }
+    send(res, 404, { Message: `No mock for ${url.pathname}` });
+  })
+  .listen(port, () => {
+    console.log(`Mock vPIC listening on http://localhost:${port}/api`);
+  });